@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import fs from 'fs'
 import path from 'path'
 import { parse } from 'csv-parse/sync'
@@ -5,15 +6,21 @@ import { parse } from 'csv-parse/sync'
 const base = path.resolve('projects', 'flights')
 
 const airportsPath = path.resolve(base, 'data', 'airports.csv')
+const airportHistoryPath = path.resolve(base, 'data', 'airportHistory.json')
+const airlinesPath = path.resolve(base, 'data', 'airlines.json')
 const flightsPath = path.resolve(base, 'data', 'flights.csv')
 const flightsOutputPath = path.resolve('public', 'data', 'flights', 'flights.geojson')
 const visitedAirportsOutputPath = path.resolve('public', 'data', 'flights', 'visitedAirports.geojson')
+const airportTableOutputPath = path.resolve('public', 'data', 'flights', 'airports.json')
+const compactOutputPath = path.resolve('public', 'data', 'flights', 'flights.compact.json')
 
 // Load pre-generated name mappings (run generateNameMappings.js to update these)
 const mappingsDir = path.resolve(base, 'data', 'mappings')
 const COUNTRY_NAMES = JSON.parse(fs.readFileSync(path.join(mappingsDir, 'countryNames.json'), 'utf8'))
 const REGION_NAMES = JSON.parse(fs.readFileSync(path.join(mappingsDir, 'regionNames.json'), 'utf8'))
 const CONTINENT_NAMES = JSON.parse(fs.readFileSync(path.join(mappingsDir, 'continentNames.json'), 'utf8'))
+// Airport IATA code → IANA time zone (run generateTimeZones.js to update)
+const AIRPORT_TIME_ZONES = JSON.parse(fs.readFileSync(path.join(mappingsDir, 'airportTimeZones.json'), 'utf8'))
 
 // Helper to get normalized country name
 function getCountryName(isoCode) {
@@ -30,11 +37,89 @@ function getRegionName(isoRegion) {
   return REGION_NAMES[isoRegion] || isoRegion
 }
 
+// Normalize "6/15/2008" or ISO 8601 "2008-06-15[T...]" to "2008-06-15" for date comparisons,
+// or null if it isn't a real calendar date in either format
+function toIsoDate(dateStr) {
+  const trimmed = (dateStr || '').trim()
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed)
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed)
+  if (!iso && !us) return null
+  const [year, month, day] = iso ? iso.slice(1).map(Number) : [us[3], us[1], us[2]].map(Number)
+  // Date.UTC rolls over out-of-range parts (2/30 → 3/2), so round-trip to reject them
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
 // Convert feet to meters
 function feetToMeters(ft) {
   return Math.round(ft * 0.3048)
 }
 
+// Great-circle geometry (same math as src/features/flights/utils/geo.ts), so GIS
+// tools opening flights.geojson draw real flight paths rather than straight lon/lat lines
+const EARTH_RADIUS_KM = 6371
+const KM_PER_SEGMENT = 100
+const MAX_SEGMENTS = 256
+
+const toRadians = (deg) => deg * Math.PI / 180
+const toDegrees = (rad) => rad * 180 / Math.PI
+const roundCoord = (value) => Math.round(value * 1e5) / 1e5
+
+// Densified path as [lon, lat] positions, endpoints included
+function greatCirclePoints(lat1, lon1, lat2, lon2) {
+  const phi1 = toRadians(lat1), lambda1 = toRadians(lon1)
+  const phi2 = toRadians(lat2), lambda2 = toRadians(lon2)
+  const h = Math.sin((phi2 - phi1) / 2) ** 2 +
+    Math.cos(phi1) * Math.cos(phi2) * Math.sin((lambda2 - lambda1) / 2) ** 2
+  const angle = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h)) // central angle in radians
+  if (angle === 0) return [[lon1, lat1], [lon2, lat2]]
+  const segments = Math.min(MAX_SEGMENTS, Math.max(1, Math.ceil(angle * EARTH_RADIUS_KM / KM_PER_SEGMENT)))
+
+  const points = []
+  for (let i = 0; i <= segments; i++) {
+    // Spherical linear interpolation between the two endpoints
+    const f = i / segments
+    const a = Math.sin((1 - f) * angle) / Math.sin(angle)
+    const b = Math.sin(f * angle) / Math.sin(angle)
+    const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2)
+    const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2)
+    const z = a * Math.sin(phi1) + b * Math.sin(phi2)
+    points.push([roundCoord(toDegrees(Math.atan2(y, x))), roundCoord(toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))))])
+  }
+  // Keep the exact endpoints (avoids -180/180 flips from rounding)
+  points[0] = [lon1, lat1]
+  points[points.length - 1] = [lon2, lat2]
+  return points
+}
+
+// Split a path wherever it crosses the antimeridian
+function splitAtAntimeridian(points) {
+  const lines = [[points[0]]]
+  for (let i = 1; i < points.length; i++) {
+    const [prevLon, prevLat] = points[i - 1]
+    const [lon, lat] = points[i]
+    if (Math.abs(lon - prevLon) > 180) {
+      const edge = prevLon > 0 ? 180 : -180
+      const unwrappedLon = lon + (prevLon > 0 ? 360 : -360)
+      const t = (edge - prevLon) / (unwrappedLon - prevLon)
+      const crossingLat = roundCoord(prevLat + t * (lat - prevLat))
+      lines[lines.length - 1].push([edge, crossingLat])
+      lines.push([[-edge, crossingLat]])
+    }
+    lines[lines.length - 1].push([lon, lat])
+  }
+  return lines
+}
+
+// LineString, or MultiLineString when the route crosses the antimeridian
+function flightGeometry(origin, destination) {
+  const lines = splitAtAntimeridian(greatCirclePoints(origin.lat, origin.lon, destination.lat, destination.lon))
+  return lines.length === 1
+    ? { type: 'LineString', coordinates: lines[0] }
+    : { type: 'MultiLineString', coordinates: lines }
+}
+
 const airportsRaw = fs.readFileSync(airportsPath, 'utf-8')
 const flightsRaw = fs.readFileSync(flightsPath, 'utf-8')
 
@@ -43,10 +128,27 @@ const airports = parse(airportsRaw, {
     skip_empty_lines: true
 })
 
+// Airports are listed under their IATA code when they have one, otherwise their
+// ICAO code, or for strips with neither their OurAirports ident (e.g. US-8448).
+// airportMap resolves any of them.
 const airportMap = {}
-airports.forEach((a) => {
+const airportList = []
+let codelessAirports = 0
+
+// Build an airport from an airports.csv-shaped row; historical entries may set their own code
+function addAirport(a) {
+    const iataCode = (a.iata_code || '').trim()
+    const icaoCode = (a.icao_code || '').trim()
+    const ident = (a.ident || '').trim()
+    const code = a.code || iataCode || icaoCode || ident
+    if (!code) {
+        codelessAirports++
+        return
+    }
     const elevFt = parseFloat(a.elevation_ft) || 0
-    airportMap[a.iata_code] = {
+    const airport = {
+        code,
+        icaoCode,
         name: a.name,
         municipality: a.municipality,
         region: a.iso_region,
@@ -59,8 +161,79 @@ airports.forEach((a) => {
         lon: parseFloat(a.longitude_deg),
         elevationFt: elevFt,
         elevationM: feetToMeters(elevFt),
+        timeZone: a.time_zone || AIRPORT_TIME_ZONES[code] || '',
+    }
+    airportList.push(airport)
+    // First airport listed keeps a code (a closed airport's ICAO code may since have been reused)
+    for (const key of [code, iataCode, icaoCode, ident]) {
+        if (key && !airportMap[key]) airportMap[key] = airport
+    }
+}
+
+airports.forEach(addAirport)
+if (codelessAirports > 0) {
+    console.warn(`⚠️ Skipped ${codelessAirports} airports.csv rows with no IATA code, ICAO code or ident (fill in icao_code or ident to use them)`)
+}
+
+// Closed and renamed airports. Entries with a name are airports missing from airports.csv;
+// the rest only mark an existing airport. Aliases send a code to a different airport for
+// flights within a date range (inclusive), e.g. HKG meant Kai Tak until July 1998.
+const airportHistory = JSON.parse(fs.readFileSync(airportHistoryPath, 'utf8'))
+airportHistory.airports.forEach((entry) => {
+    if (entry.name) addAirport(entry)
+    const airport = airportMap[entry.code]
+    if (!airport) {
+        console.warn(`⚠️ Unknown airport in airport history: ${entry.code}`)
+        return
+    }
+    if (entry.closed) airport.closed = entry.closed
+    if (entry.renamedTo) airport.renamedTo = entry.renamedTo
+})
+
+// Resolve a flights.csv code to the airport it meant on the flight's date
+function resolveAirport(code, isoDate) {
+    const alias = airportHistory.aliases.find((a) =>
+        a.code === code && (!a.from || isoDate >= a.from) && (!a.until || isoDate <= a.until)
+    )
+    const airport = airportMap[alias ? alias.airport : code]
+    if (airport?.closed && isoDate >= airport.closed) {
+        console.warn(`⚠️ ${code} closed on ${airport.closed}, but is used by a flight on ${isoDate}`)
+    }
+    return airport
+}
+
+// Airline registry: flights.csv airline names (or aliases, or IATA/ICAO designators)
+// resolve to a registry entry, case-insensitively
+const AIRLINES = JSON.parse(fs.readFileSync(airlinesPath, 'utf8'))
+const airlineLookup = new Map()
+AIRLINES.forEach((airline) => {
+    for (const key of [airline.name, ...airline.aliases, airline.iata, airline.icao]) {
+        if (key) airlineLookup.set(key.toLowerCase(), airline)
     }
 })
+const unknownAirlines = new Set()
+
+function resolveAirline(name) {
+    const trimmed = (name || '').trim()
+    if (!trimmed) return null
+    const airline = airlineLookup.get(trimmed.toLowerCase())
+    if (!airline && !unknownAirlines.has(trimmed)) {
+        unknownAirlines.add(trimmed)
+        console.warn(`⚠️ Airline not in registry (add it to airlines.json): "${trimmed}"`)
+    }
+    return airline || null
+}
+const flownAirlines = new Set()
+
+// Alliance the airline belonged to on the flight's date (memberships have inclusive
+// from/until dates, since carriers switch alliances), or '' if unaffiliated
+function allianceOn(airline, isoDate) {
+    if (!airline) return ''
+    const membership = airline.alliances.find((m) =>
+        (!m.from || isoDate >= m.from) && (!m.until || isoDate <= m.until)
+    )
+    return membership ? membership.alliance : ''
+}
 
 const flights = parse(flightsRaw, {
     columns: true,
@@ -78,17 +251,23 @@ const stats = {
 }
 
 const flightFeatures = flights.map((row, index) => {
-    const origin = airportMap[row.origin]
-    const destination = airportMap[row.destination]
+    const flightDate = toIsoDate(row.date)
+    if (!flightDate) {
+        // index + 2: 1-indexed, plus header (as in sync-flights' "Row N" messages)
+        console.warn(`⚠️ Row ${index + 2}: Skipping flight with invalid date "${row.date}" (expected M/D/YYYY or YYYY-MM-DD)`)
+        return null
+    }
+    const airline = resolveAirline(row.airline)
+    if (airline) flownAirlines.add(airline)
+    const origin = resolveAirport(row.origin, flightDate)
+    const destination = resolveAirport(row.destination, flightDate)
 
     if (!origin || !destination) {
         console.warn(`⚠️ Skipping flight with missing airport: ${row.origin} → ${row.destination}`)
         return null
     }
   
-    // Parse year from date
-    const dateParts = row.date.split('/')
-    const year = parseInt(dateParts[2], 10)
+    const year = Number(flightDate.slice(0, 4))
     stats.years.add(year)
     stats.minYear = Math.min(stats.minYear, year)
     stats.maxYear = Math.max(stats.maxYear, year)
@@ -103,13 +282,14 @@ const flightFeatures = flights.map((row, index) => {
       stats.intercontinentalFlights += 1
     }
   
-    if (row.origin in visitedAirports) {
-      visitedAirports[row.origin].dates.add(row.date);
-      visitedAirports[row.origin].visitCount += 1
-      visitedAirports[row.origin].departureCount += 1
+    if (origin.code in visitedAirports) {
+      visitedAirports[origin.code].dates.add(row.date);
+      visitedAirports[origin.code].visitCount += 1
+      visitedAirports[origin.code].departureCount += 1
     } else {
-      visitedAirports[row.origin] = {
-        code: row.origin,
+      visitedAirports[origin.code] = {
+        code: origin.code,
+        icaoCode: origin.icaoCode,
         municipality: origin.municipality,
         region: origin.region,
         regionName: origin.regionName,
@@ -122,19 +302,23 @@ const flightFeatures = flights.map((row, index) => {
         name: origin.name,
         elevationFt: origin.elevationFt,
         elevationM: origin.elevationM,
+        timeZone: origin.timeZone,
+        closed: origin.closed,
+        renamedTo: origin.renamedTo,
         dates: new Set([row.date]),
         visitCount: 1,
         arrivalCount: 0,
         departureCount: 1
       }
     }
-    if (row.destination in visitedAirports) {
-      visitedAirports[row.destination].dates.add(row.date);
-      visitedAirports[row.destination].visitCount += 1
-      visitedAirports[row.destination].arrivalCount += 1
+    if (destination.code in visitedAirports) {
+      visitedAirports[destination.code].dates.add(row.date);
+      visitedAirports[destination.code].visitCount += 1
+      visitedAirports[destination.code].arrivalCount += 1
     } else {
-      visitedAirports[row.destination] = {
-        code: row.destination,
+      visitedAirports[destination.code] = {
+        code: destination.code,
+        icaoCode: destination.icaoCode,
         municipality: destination.municipality,
         region: destination.region,
         regionName: destination.regionName,
@@ -147,6 +331,9 @@ const flightFeatures = flights.map((row, index) => {
         name: destination.name,
         elevationFt: destination.elevationFt,
         elevationM: destination.elevationM,
+        timeZone: destination.timeZone,
+        closed: destination.closed,
+        renamedTo: destination.renamedTo,
         dates: new Set([row.date]),
         visitCount: 1,
         departureCount: 0,
@@ -159,8 +346,17 @@ const flightFeatures = flights.map((row, index) => {
     properties: {
       id: index + 1,
       date: row.date,
-      airline: row.airline,
-      origin_code: row.origin,
+      airline: airline ? airline.name : (row.airline || '').trim(),
+      airlineIata: airline ? airline.iata : '',
+      airlineIcao: airline ? airline.icao : '',
+      alliance: allianceOn(airline, flightDate),
+      flightNumber: row.flightNumber || '',
+      notes: row.notes || '',
+      departureTime: row.departureTime || '',
+      arrivalTime: row.arrivalTime || '',
+      tripId: row.trip || '',
+      traveler: (row.traveler || '').trim(),
+      origin_code: origin.code,
       origin_name: origin.name,
       origin_municipality: origin.municipality,
       origin_region: origin.region,
@@ -171,7 +367,8 @@ const flightFeatures = flights.map((row, index) => {
       origin_continentName: origin.continentName,
       origin_lon: origin.lon,
       origin_lat: origin.lat,
-      destination_code: row.destination,
+      origin_timeZone: origin.timeZone,
+      destination_code: destination.code,
       destination_name: destination.name,
       destination_municipality: destination.municipality,
       destination_region: destination.region,
@@ -182,28 +379,35 @@ const flightFeatures = flights.map((row, index) => {
       destination_continentName: destination.continentName,
       destination_lon: destination.lon,
       destination_lat: destination.lat,
+      destination_timeZone: destination.timeZone,
     },
-    geometry: {
-      type: 'LineString',
-      coordinates: [
-        [origin.lon, origin.lat],
-        [destination.lon, destination.lat],
-      ],
-    },
+    geometry: flightGeometry(origin, destination),
   }
 }).filter(Boolean)
 
+const flightsMetadata = {
+    totalFlights: flightFeatures.length,
+    years: Array.from(stats.years).sort((a, b) => a - b),
+    minYear: stats.minYear,
+    maxYear: stats.maxYear,
+    internationalFlights: stats.internationalFlights,
+    intercontinentalFlights: stats.intercontinentalFlights,
+    domesticFlights: stats.domesticFlights,
+    // Registry entries for the airlines flown, for colors and designators
+    airlines: AIRLINES.filter((a) => flownAirlines.has(a)),
+}
+
 const flightsGeojson = {
     type: 'FeatureCollection',
     features: flightFeatures,
     metadata: {
-      totalFlights: flightFeatures.length,
-      years: Array.from(stats.years).sort((a, b) => a - b),
-      minYear: stats.minYear,
-      maxYear: stats.maxYear,
-      internationalFlights: stats.internationalFlights,
-      intercontinentalFlights: stats.intercontinentalFlights,
-      domesticFlights: stats.domesticFlights,
+      ...flightsMetadata,
+      // Changes only with the flights themselves, unlike generatedAt, so the service
+      // worker (public/sw.js) can tell a rebuild of the same data from new data
+      dataHash: crypto.createHash('sha256')
+        .update(JSON.stringify({ flights: flightFeatures, metadata: flightsMetadata }))
+        .digest('hex')
+        .slice(0, 16),
       generatedAt: new Date().toISOString()
     }
 }
@@ -218,6 +422,7 @@ const visitedAirportsFeatures = Object.values(visitedAirports)
     type: 'Feature',
     properties: {
       code: a.code,
+      icaoCode: a.icaoCode || '',
       municipality: a.municipality,
       region: a.region,
       regionName: a.regionName,
@@ -228,6 +433,10 @@ const visitedAirportsFeatures = Object.values(visitedAirports)
       name: a.name || '',
       elevationFt: a.elevationFt || 0,
       elevationM: a.elevationM || 0,
+      timeZone: a.timeZone || '',
+      // Only present for closed or renamed airports
+      ...(a.closed && { closed: a.closed }),
+      ...(a.renamedTo && { renamedTo: a.renamedTo }),
       visitDates: Array.from(a.dates),
       visitCount: a.visitCount || 0,
       arrivalCount: a.arrivalCount || 0,
@@ -246,3 +455,89 @@ fs.writeFileSync(visitedAirportsOutputPath, JSON.stringify({
 }, null, 2))
 
 console.log(`✅ Generated ${visitedAirportsFeatures.length} airports to ${visitedAirportsOutputPath}`)
+
+// Full airport table, date-bounded aliases and the airline registry for the client-side
+// importers, so imported logs resolve codes and airlines exactly like flights.csv does
+fs.writeFileSync(airportTableOutputPath, JSON.stringify({ airports: airportList, aliases: airportHistory.aliases, airlines: AIRLINES }))
+
+console.log(`✅ Generated ${airportList.length} reference airports to ${airportTableOutputPath}`)
+
+// Columnar copy of flights.geojson and visitedAirports.geojson, which the app loads by
+// default (decoded by src/features/flights/utils/compact.ts). Airports and airlines are
+// stored once and referenced by index, dates are day numbers (delta-encoded in file
+// order) and tracks are recomputed on load, so each flight only adds a few numbers.
+// Dates that a day number can't reproduce (ISO dates with a time, offset or zone)
+// are kept as written, so the app still gets their timing.
+const COMPACT_FORMAT_VERSION = 3
+const MS_PER_DAY = 86_400_000
+
+function toDayNumber(dateStr) {
+  // Flights with bad dates were skipped above, so this would be a bug in the build
+  const isoDate = toIsoDate(dateStr)
+  if (!isoDate) throw new Error(`Invalid date "${dateStr}" in the compact flight data`)
+  return Date.parse(isoDate) / MS_PER_DAY
+}
+
+// The raw date, or '' when it's the M/D/YYYY form the decoder rebuilds from the day number
+function compactDate(dateStr) {
+  const [year, month, day] = toIsoDate(dateStr).split('-').map(Number)
+  return dateStr === `${month}/${day}/${year}` ? '' : dateStr
+}
+
+const compactAirports = visitedAirportsFeatures.map((f) => f.properties)
+const airportIndex = new Map(compactAirports.map((a, i) => [a.code, i]))
+const compactFlights = flightFeatures.map((f) => f.properties)
+
+const airlineIndex = new Map()
+compactFlights.forEach((f) => {
+  if (!airlineIndex.has(f.airline)) airlineIndex.set(f.airline, { index: airlineIndex.size, iata: f.airlineIata, icao: f.airlineIcao })
+})
+const compactAirlines = Array.from(airlineIndex.entries())
+const alliances = ['', ...new Set(compactFlights.map((f) => f.alliance).filter(Boolean))]
+const travelers = ['', ...new Set(compactFlights.map((f) => f.traveler).filter(Boolean))]
+
+const column = (rows, key) => rows.map((row) => row[key])
+const days = compactFlights.map((f) => toDayNumber(f.date))
+
+const compactData = {
+  version: COMPACT_FORMAT_VERSION,
+  metadata: flightsGeojson.metadata,
+  airports: {
+    ...Object.fromEntries(
+      ['code', 'icaoCode', 'name', 'municipality', 'region', 'regionName', 'country', 'countryName',
+        'continent', 'continentName', 'elevationFt', 'elevationM', 'timeZone', 'arrivalCount', 'departureCount']
+        .map((key) => [key, column(compactAirports, key)])
+    ),
+    lon: visitedAirportsFeatures.map((f) => f.geometry.coordinates[0]),
+    lat: visitedAirportsFeatures.map((f) => f.geometry.coordinates[1]),
+    closed: compactAirports.map((a) => a.closed || ''),
+    renamedTo: compactAirports.map((a) => a.renamedTo || ''),
+    visitDays: compactAirports.map((a) => a.visitDates.map(toDayNumber)),
+  },
+  airlines: {
+    name: compactAirlines.map(([name]) => name),
+    iata: compactAirlines.map(([, a]) => a.iata),
+    icao: compactAirlines.map(([, a]) => a.icao),
+  },
+  alliances,
+  travelers,
+  flights: {
+    id: column(compactFlights, 'id'),
+    day: days.map((day, i) => (i === 0 ? day : day - days[i - 1])),
+    date: compactFlights.map((f) => compactDate(f.date)),
+    origin: compactFlights.map((f) => airportIndex.get(f.origin_code)),
+    destination: compactFlights.map((f) => airportIndex.get(f.destination_code)),
+    airline: compactFlights.map((f) => airlineIndex.get(f.airline).index),
+    alliance: compactFlights.map((f) => alliances.indexOf(f.alliance)),
+    traveler: compactFlights.map((f) => travelers.indexOf(f.traveler)),
+    ...Object.fromEntries(
+      ['flightNumber', 'notes', 'departureTime', 'arrivalTime', 'tripId'].map((key) => [key, column(compactFlights, key)])
+    ),
+  },
+}
+
+fs.writeFileSync(compactOutputPath, JSON.stringify(compactData))
+
+const compactSize = fs.statSync(compactOutputPath).size
+const geojsonSize = fs.statSync(flightsOutputPath).size + fs.statSync(visitedAirportsOutputPath).size
+console.log(`✅ Generated compact flight data to ${compactOutputPath} (${(compactSize / 1024).toFixed(1)} KB vs ${(geojsonSize / 1024).toFixed(1)} KB GeoJSON)`)
@@ -0,0 +1,69 @@
+/**
+ * One-time script to generate an airport → IANA time zone mapping from airports.csv
+ * Uses geo-tz to look up the zone for each airport's coordinates. The full zone
+ * set (geo-tz/all) is used so e.g. Dublin stays Europe/Dublin rather than being
+ * merged into Europe/London.
+ *
+ * Run: npm install geo-tz --save-dev
+ * Then: node projects/flights/scripts/generateTimeZones.js
+ *
+ * This generates a JSON file that convertFlights.js imports, so geo-tz (and its
+ * boundary data) is only needed when regenerating the mapping.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parse } from 'csv-parse/sync'
+import { find } from 'geo-tz/all'
+
+const base = path.resolve('projects', 'flights')
+const airportsPath = path.resolve(base, 'data', 'airports.csv')
+const outputPath = path.resolve(base, 'data', 'mappings', 'airportTimeZones.json')
+
+// Manual overrides where the boundary lookup picks the wrong zone
+// (e.g. airports right on a zone boundary or on reclaimed land)
+const TIME_ZONE_OVERRIDES = {}
+
+console.log('📖 Reading airports.csv...')
+const airportsRaw = fs.readFileSync(airportsPath, 'utf-8')
+const airports = parse(airportsRaw, {
+  columns: true,
+  skip_empty_lines: true
+})
+
+const timeZones = {}
+const missing = []
+
+airports.forEach(a => {
+  // Same key convertFlights.js uses: IATA code, else ICAO code, else OurAirports ident
+  const code = a.iata_code || a.icao_code || a.ident
+  if (!code) return
+  if (TIME_ZONE_OVERRIDES[code]) {
+    timeZones[code] = TIME_ZONE_OVERRIDES[code]
+    return
+  }
+  const lat = parseFloat(a.latitude_deg)
+  const lon = parseFloat(a.longitude_deg)
+  const [zone] = find(lat, lon)
+  // geo-tz returns Etc/GMT±N for points at sea; keep those, they're still usable offsets
+  if (zone) {
+    timeZones[code] = zone
+  } else {
+    missing.push(code)
+  }
+})
+
+const sorted = Object.keys(timeZones).sort().reduce((acc, key) => {
+  acc[key] = timeZones[key]
+  return acc
+}, {})
+
+fs.mkdirSync(path.dirname(outputPath), { recursive: true })
+fs.writeFileSync(outputPath, JSON.stringify(sorted, null, 2))
+
+console.log(`✅ Generated ${Object.keys(sorted).length} airport time zones to ${outputPath}`)
+
+if (missing.length > 0) {
+  console.log(`\n⚠️  No time zone found (add to TIME_ZONE_OVERRIDES):`)
+  missing.forEach(code => console.log(`   ${code}`))
+}
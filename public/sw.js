@@ -0,0 +1,158 @@
+/**
+ * Offline support for the site.
+ *
+ * Precaches the app shell, the flight data the globe loads and the globe textures listed
+ * in sw-manifest.json (written by the build, see vite.config.ts), and serves them when the
+ * network is unavailable. Other data/flights files are cached when first requested. Flight
+ * data is served from the cache and re-checked in the background: when the network copy
+ * has a different metadata.dataHash, the cached data files are replaced and open pages
+ * get a 'flight-data-updated' message. Requests made with `cache: 'reload'` (the page
+ * retrying data it can't decode, e.g. after a format change) go to the network.
+ */
+
+const CACHE_PREFIX = 'rsmb-';
+// Flight data and textures are kept across app versions; the shell cache is per build
+const DATA_CACHE = `${CACHE_PREFIX}data`;
+const scope = self.registration.scope;
+
+// Files whose metadata.dataHash identifies the flight data
+const DATA_INDEX_FILES = ['data/flights/flights.compact.json', 'data/flights/flights.geojson'];
+
+const toUrl = (file) => new URL(file, scope).href;
+
+async function loadManifest() {
+  const res = await fetch(toUrl('sw-manifest.json'), { cache: 'no-store' });
+  if (!res.ok) throw new Error(`sw-manifest.json: HTTP ${res.status}`);
+  return res.json();
+}
+
+// Cache what can be fetched; a missing texture or data file shouldn't block the install
+async function cacheAll(cacheName, urls) {
+  const cache = await caches.open(cacheName);
+  await Promise.allSettled(urls.map(async (url) => {
+    const res = await fetch(url, { cache: 'no-cache' });
+    if (res.ok) await cache.put(url, res);
+  }));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const manifest = await loadManifest();
+    const shellCache = await caches.open(`${CACHE_PREFIX}shell-${manifest.version}`);
+    await shellCache.addAll(manifest.shell.map(toUrl));
+    await cacheAll(DATA_CACHE, [...manifest.data.map(toUrl), ...manifest.textures]);
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const manifest = await loadManifest().catch(() => null);
+    if (manifest) {
+      const current = [`${CACHE_PREFIX}shell-${manifest.version}`, DATA_CACHE];
+      const names = await caches.keys();
+      await Promise.all(names
+        .filter((name) => name.startsWith(CACHE_PREFIX) && !current.includes(name))
+        .map((name) => caches.delete(name)));
+    }
+    await self.clients.claim();
+  })());
+});
+
+async function readMetadata(response) {
+  try {
+    const json = await response.clone().json();
+    return json?.metadata ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Drop every cached data/flights file but the one just stored, so the rest are fetched fresh
+async function clearOtherDataFiles(cache, keepUrl) {
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter((request) => request.url.startsWith(toUrl('data/flights/')) && request.url !== keepUrl)
+    .map((request) => cache.delete(request)));
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+// Compare the cached flight data with the network copy and refresh the data files if it changed.
+// Files written before dataHash existed are compared by generatedAt.
+async function refreshFlightData(request, cached) {
+  const res = await fetch(request, { cache: 'no-cache' });
+  if (!res.ok) return;
+  const [cachedMetadata, latestMetadata] = await Promise.all([readMetadata(cached), readMetadata(res)]);
+  const version = (metadata) => metadata?.dataHash ?? metadata?.generatedAt ?? null;
+  if (!version(latestMetadata) || version(cachedMetadata) === version(latestMetadata)) return;
+
+  const cache = await caches.open(DATA_CACHE);
+  await cache.put(request, res);
+  await clearOtherDataFiles(cache, request.url);
+  await notifyClients({ type: 'flight-data-updated', generatedAt: latestMetadata.generatedAt });
+}
+
+// Fetch from the network and replace the cached copy (and the data files built with it)
+async function reloadFlightData(request) {
+  const res = await fetch(request, { cache: 'no-cache' });
+  if (res.ok) {
+    const cache = await caches.open(DATA_CACHE);
+    await cache.put(request, res.clone());
+    await clearOtherDataFiles(cache, request.url);
+  }
+  return res;
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok && cacheName) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, res.clone());
+  }
+  return res;
+}
+
+// Network first so deploys show up, falling back to the cached app shell for any route
+async function navigate(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const shell = await caches.match(toUrl('./'));
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (url.href.startsWith(toUrl('data/flights/'))) {
+    const isIndex = DATA_INDEX_FILES.some((file) => url.href === toUrl(file));
+    event.respondWith((async () => {
+      if (request.cache === 'reload') return reloadFlightData(request);
+      const cached = await caches.match(request, { ignoreSearch: true });
+      if (!cached) return cacheFirst(request, DATA_CACHE);
+      if (isIndex) event.waitUntil(refreshFlightData(request, cached).catch(() => {}));
+      return cached;
+    })());
+    return;
+  }
+
+  // Precached build assets are hashed and the textures are fixed, so the cache always wins
+  if (url.href.startsWith(scope) || url.hostname === 'unpkg.com') {
+    event.respondWith(cacheFirst(request, url.hostname === 'unpkg.com' ? DATA_CACHE : null));
+  }
+});
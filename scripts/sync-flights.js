@@ -29,11 +29,19 @@
  *   date,airline,flightNumber,origin,destination
  *   6/15/2008,Continental Airlines,,LAX,IAH
  *   
- *   - date: M/D/YYYY format
+ *   - date: M/D/YYYY or ISO 8601 (YYYY-MM-DD, optionally with a local time and
+ *           UTC offset or IANA zone, e.g. 2024-03-05T14:30[America/Chicago])
  *   - airline: Airline name (will be normalized)
  *   - flightNumber: Optional flight number
  *   - origin: 3-4 letter IATA/ICAO airport code
  *   - destination: 3-4 letter IATA/ICAO airport code
+ *   - notes: Optional free-text notes (searchable in the flight tracker)
+ *   - departureTime: Optional local departure time at origin (HH:MM)
+ *   - arrivalTime: Optional local arrival time at destination (HH:MM, "+1"
+ *                  suffix for next-day arrivals, e.g. 07:05+1)
+ *   - trip: Optional trip id grouping multi-leg journeys (inferred if omitted)
+ *   - traveler: Optional name of who flew, for logs shared by several people
+ *               (empty rows belong to everyone's combined view only)
  * 
  * QA/QC CHECKS
  * ------------
@@ -46,18 +54,19 @@
  *   - Invalid dates (e.g., Feb 30)
  *   - Empty or invalid airport codes
  *   - Same origin and destination
+ *   - Invalid departure/arrival time format
  * 
  *   WARNINGS (informational, won't abort):
  *   - Empty airline name
  *   - Airline name corrections applied
- *   - Possible duplicate flights (same date + route)
+ *   - Possible duplicate flights (same date + route + traveler)
  *   - Inconsistent airline naming across rows
  * 
  * DATA TRANSFORMATIONS
  * --------------------
  *   - Trims whitespace from all fields
  *   - Removes empty columns
- *   - Normalizes airline names (see AIRLINE_CORRECTIONS)
+ *   - Normalizes airline names against the airline registry (see AIRLINE_CORRECTIONS)
  *   - Uppercases airport codes
  *   - Uppercases flight numbers
  *   - Sorts flights by date (ascending)
@@ -80,23 +89,18 @@ const SHEET_NAME = process.env.GOOGLE_SHEET_NAME || 'Flights';
 const OUTPUT_PATH = resolve(__dirname, '../projects/flights/data/flights.csv');
 
 /**
- * Known airline name mappings for consistency.
- * Keys are lowercase, values are the canonical name.
- * Add common variations as needed.
+ * Airline name mappings for consistency, from the airline registry
+ * (projects/flights/data/airlines.json). Keys are lowercase names and aliases,
+ * values are the registry name. Add new airlines or variations to the registry.
  */
-const AIRLINE_CORRECTIONS = {
-  'southwest airlines': 'Southwest',
-  'southwest air': 'Southwest',
-  'american airlines': 'American',
-  'united airlines': 'United',
-  'delta airlines': 'Delta',
-  'delta air lines': 'Delta',
-  'jetblue': 'JetBlue',
-  'jet blue': 'JetBlue',
-  'alaska airlines': 'Alaska',
-  'spirit airlines': 'Spirit',
-  'frontier airlines': 'Frontier',
-};
+const AIRLINE_REGISTRY = JSON.parse(
+  readFileSync(resolve(__dirname, '../projects/flights/data/airlines.json'), 'utf8')
+);
+const AIRLINE_CORRECTIONS = Object.fromEntries(
+  AIRLINE_REGISTRY.flatMap((airline) =>
+    [airline.name, ...airline.aliases].map((alias) => [alias.toLowerCase(), airline.name])
+  )
+);
 
 async function fetchSheetAsCSV(sheetId, sheetName) {
   // Google Sheets CSV export URL with sheet name
@@ -196,7 +200,36 @@ function trimEmptyColumns(rows) {
 }
 
 /**
- * Validate and parse date string like "6/15/2008"
+ * ISO 8601 date with optional local time, UTC offset and bracketed IANA zone.
+ * Mirrors the parser in src/features/flights/utils/dates.ts.
+ */
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?(?:\[([^\]]+)\])?$/;
+
+/**
+ * Split a date string ("6/15/2008" or "2008-06-15T14:30") into numeric parts.
+ * Returns null if it matches neither format.
+ */
+function splitDate(dateStr) {
+  const iso = ISO_DATE.exec(dateStr);
+  if (iso) {
+    return {
+      year: Number(iso[1]),
+      month: Number(iso[2]),
+      day: Number(iso[3]),
+      hour: iso[4] !== undefined ? Number(iso[4]) : 0,
+      minute: iso[5] !== undefined ? Number(iso[5]) : 0,
+      timeZone: iso[7] || null,
+    };
+  }
+  
+  const parts = dateStr.split('/');
+  if (parts.length !== 3) return null;
+  const [month, day, year] = parts.map(Number);
+  return { year, month, day, hour: 0, minute: 0, timeZone: null };
+}
+
+/**
+ * Validate and parse date string like "6/15/2008" or "2008-06-15"
  * Returns { valid: boolean, date?: Date, error?: string }
  */
 function validateDate(dateStr) {
@@ -205,13 +238,21 @@ function validateDate(dateStr) {
   }
   
   const trimmed = dateStr.trim();
-  const parts = trimmed.split('/');
+  const parts = splitDate(trimmed);
   
-  if (parts.length !== 3) {
-    return { valid: false, error: `Invalid format: "${trimmed}" (expected M/D/YYYY)` };
+  if (!parts) {
+    return { valid: false, error: `Invalid format: "${trimmed}" (expected M/D/YYYY or YYYY-MM-DD)` };
   }
   
-  const [month, day, year] = parts.map(Number);
+  const { month, day, year } = parts;
+  
+  if (parts.timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: parts.timeZone });
+    } catch {
+      return { valid: false, error: `Unknown time zone "${parts.timeZone}": "${trimmed}"` };
+    }
+  }
   
   if (isNaN(month) || isNaN(day) || isNaN(year)) {
     return { valid: false, error: `Non-numeric values: "${trimmed}"` };
@@ -248,7 +289,21 @@ function validateDate(dateStr) {
 }
 
 /**
- * Validate airport code (3-4 letter IATA/ICAO code)
+ * Validate optional local time like "14:30" or "07:05+1"
+ */
+function validateTime(timeStr) {
+  if (!timeStr) return { valid: true };
+  
+  const match = /^(\d{1,2}):(\d{2})(?:\s*\+(\d))?$/.exec(timeStr);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return { valid: false, error: `Invalid time: "${timeStr}" (expected HH:MM, optionally +1)` };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Validate airport code (3-4 letter IATA/ICAO code, or an OurAirports ident such as SA10 or AR-0767)
  */
 function validateAirportCode(code) {
   if (!code || !code.trim()) {
@@ -257,7 +312,7 @@ function validateAirportCode(code) {
   
   const trimmed = code.trim().toUpperCase();
   
-  if (!/^[A-Z]{3,4}$/.test(trimmed)) {
+  if (!/^([A-Z0-9]{3,4}|[A-Z]{2}-[A-Z0-9]{3,5})$/.test(trimmed)) {
     return { valid: false, error: `Invalid airport code: "${code}"` };
   }
   
@@ -307,6 +362,9 @@ function runQAQC(rows) {
   const originIdx = header.findIndex(h => h === 'origin');
   const destIdx = header.findIndex(h => h === 'destination');
   const flightNumIdx = header.findIndex(h => h === 'flightnumber' || h === 'flight number' || h === 'flight_number');
+  const departureTimeIdx = header.findIndex(h => h === 'departuretime' || h === 'departure time' || h === 'departure_time');
+  const arrivalTimeIdx = header.findIndex(h => h === 'arrivaltime' || h === 'arrival time' || h === 'arrival_time');
+  const travelerIdx = header.findIndex(h => h === 'traveler' || h === 'traveller');
   
   const errors = [];
   const warnings = [];
@@ -387,9 +445,21 @@ function runQAQC(rows) {
       }
     }
     
-    // Check for duplicates (same date, origin, destination)
+    // Validate optional departure/arrival times
+    for (const [idx, label] of [[departureTimeIdx, 'Departure'], [arrivalTimeIdx, 'Arrival']]) {
+      if (idx === -1) continue;
+      const timeResult = validateTime(cleanRow[idx]);
+      if (!timeResult.valid) {
+        errors.push(`Row ${rowNum}: ${label} - ${timeResult.error}`);
+        hasError = true;
+      }
+    }
+    
+    // Check for duplicates (same date, origin, destination and traveler - travelers
+    // flying together is expected in shared logs)
     if (dateIdx !== -1 && originIdx !== -1 && destIdx !== -1) {
-      const flightKey = `${cleanRow[dateIdx]}|${cleanRow[originIdx]}|${cleanRow[destIdx]}`;
+      const traveler = travelerIdx !== -1 ? cleanRow[travelerIdx] : '';
+      const flightKey = `${cleanRow[dateIdx]}|${cleanRow[originIdx]}|${cleanRow[destIdx]}|${traveler}`;
       if (seenFlights.has(flightKey)) {
         warnings.push(`Row ${rowNum}: Possible duplicate of row ${seenFlights.get(flightKey)} (${cleanRow[dateIdx]}: ${cleanRow[originIdx]} → ${cleanRow[destIdx]})`);
       } else {
@@ -416,14 +486,14 @@ function runQAQC(rows) {
 }
 
 /**
- * Parse date string like "6/15/2008" to sortable value
+ * Parse date string like "6/15/2008" or "2008-06-15T14:30" to sortable value
  */
 function parseDateForSort(dateStr) {
   if (!dateStr) return 0;
-  const parts = dateStr.split('/');
-  if (parts.length !== 3) return 0;
-  const [month, day, year] = parts.map(Number);
-  return new Date(year, month - 1, day).getTime();
+  const parts = splitDate(dateStr.trim());
+  if (!parts) return 0;
+  const { year, month, day, hour, minute } = parts;
+  return new Date(year, month - 1, day, hour, minute).getTime();
 }
 
 /**
@@ -0,0 +1,17 @@
+// Static files the flights page loads. The service worker precaches the textures and the
+// compact flight data and caches the rest on first use (see vite.config.ts and
+// public/sw.js), so the globe still works offline.
+
+// Earth textures
+export const GLOBE_IMAGE = 'https://unpkg.com/three-globe/example/img/earth-night.jpg';
+export const BUMP_IMAGE = 'https://unpkg.com/three-globe/example/img/earth-topology.png';
+
+export const EARTH_TEXTURES = [GLOBE_IMAGE, BUMP_IMAGE];
+
+// Written to public/data/flights by projects/flights/scripts/convertFlights.js
+export const FLIGHT_DATA_FILES = {
+  compact: 'flights.compact.json',
+  flights: 'flights.geojson',
+  airports: 'visitedAirports.geojson',
+  airportTable: 'airports.json',
+} as const;
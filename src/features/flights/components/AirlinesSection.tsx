@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import { CollapsibleSection } from './shared';
+import type { AirlineCount, AirlineFilter } from '../types';
+import { getSingleAirline } from '../utils/airlineFilter';
 
 interface AirlinesSectionProps {
-  airlineCounts: { airline: string; count: number }[];
-  selectedAirline: string | null;
+  airlineCounts: AirlineCount[];
+  airlineFilter: AirlineFilter | null; // several airlines or exclusions are picked in the filter panel
   onAirlineSelect: (airline: string | null) => void;
   isOpen: boolean;
   onToggle: () => void;
@@ -11,12 +13,15 @@ interface AirlinesSectionProps {
 
 export function AirlinesSection({
   airlineCounts,
-  selectedAirline,
+  airlineFilter,
   onAirlineSelect,
   isOpen,
   onToggle,
 }: AirlinesSectionProps) {
   const [showAll, setShowAll] = useState(false);
+  const selectedAirline = getSingleAirline(airlineFilter);
+  const isIncluded = (airline: string) => airlineFilter?.include.includes(airline) ?? false;
+  const isExcluded = (airline: string) => airlineFilter?.exclude.includes(airline) ?? false;
 
   // Calculate how many airlines fit in ~2 rows (approximately 6-8 items)
   const INITIAL_VISIBLE = 6;
@@ -34,24 +39,30 @@ export function AirlinesSection({
         <button
           onClick={() => onAirlineSelect(null)}
           className={`px-2 py-1 rounded text-xs transition-colors ${
-            selectedAirline === null
+            airlineFilter === null
               ? 'bg-orange-600 text-white'
               : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
           }`}
         >
           All
         </button>
-        {visibleAirlines.map(({ airline, count }) => (
+        {visibleAirlines.map(({ airline, count, designator, color }) => (
           <button
             key={airline}
             onClick={() => onAirlineSelect(selectedAirline === airline ? null : airline)}
-            className={`px-2 py-1 rounded text-xs transition-colors ${
-              selectedAirline === airline
+            className={`px-2 py-1 rounded text-xs transition-colors inline-flex items-center gap-1 ${
+              isIncluded(airline)
                 ? 'bg-orange-600 text-white'
-                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                : isExcluded(airline)
+                  ? 'bg-gray-800 text-gray-600 line-through hover:bg-gray-700'
+                  : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
             }`}
+            title={designator ? `${airline} (${designator})` : airline}
           >
-            {airline || '(Unknown)'} <span className="text-orange-400">×{count}</span>
+            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+            {airline || '(Unknown)'}
+            {designator && <span className="opacity-60 font-mono">{designator}</span>}
+            <span className="text-orange-400">×{count}</span>
           </button>
         ))}
       </div>
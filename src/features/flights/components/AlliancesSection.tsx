@@ -0,0 +1,60 @@
+import { CollapsibleSection } from './shared';
+import { ALLIANCE_COLORS, ALLIANCE_LABELS } from '../utils/alliances';
+import type { AllianceFilter, AllianceStat } from '../types';
+
+interface AlliancesSectionProps {
+  allianceStats: AllianceStat[];
+  selectedAlliance: AllianceFilter | null;
+  onAllianceSelect: (alliance: AllianceFilter | null) => void;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+export function AlliancesSection({
+  allianceStats,
+  selectedAlliance,
+  onAllianceSelect,
+  isOpen,
+  onToggle,
+}: AlliancesSectionProps) {
+  return (
+    <CollapsibleSection
+      title="Alliances"
+      icon="🤝"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="space-y-1.5">
+        {allianceStats.map(({ alliance, flights, distance, share }) => (
+          <button
+            key={alliance}
+            onClick={() => onAllianceSelect(selectedAlliance === alliance ? null : alliance)}
+            className={`w-full text-left rounded px-1.5 py-1 transition-colors ${
+              selectedAlliance === alliance ? 'bg-gray-700' : 'hover:bg-gray-800'
+            }`}
+          >
+            <div className="flex justify-between items-center text-xs">
+              <span className="flex items-center gap-1.5 text-gray-300">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: ALLIANCE_COLORS[alliance] }} />
+                {ALLIANCE_LABELS[alliance]}
+              </span>
+              <span className="text-gray-500 whitespace-nowrap">
+                <span className="text-yellow-400">{flights}</span>
+                <span className="text-gray-600 mx-1">✈</span>
+                {distance.toLocaleString()} km
+                <span className="text-gray-600 mx-1">•</span>
+                {Math.round(share * 100)}%
+              </span>
+            </div>
+            <div className="mt-1 h-1 rounded bg-gray-800 overflow-hidden">
+              <div
+                className="h-full rounded"
+                style={{ width: `${share * 100}%`, backgroundColor: ALLIANCE_COLORS[alliance] }}
+              />
+            </div>
+          </button>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+}
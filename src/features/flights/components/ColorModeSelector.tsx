@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import type { ColorMode } from '../types';
+import { ALLIANCES, ALLIANCE_COLORS, ALLIANCE_LABELS } from '../utils/alliances';
 
 // Year color scale for legend
 const YEAR_COLORS: Record<number, string> = {
@@ -24,6 +25,7 @@ export function ColorModeSelector({ mode, onModeChange, years = [] }: ColorModeS
     { value: 'year', label: 'By Year', icon: '📅' },
     { value: 'frequency', label: 'By Frequency', icon: '🔥' },
     { value: 'airline', label: 'By Airline', icon: '✈️' },
+    { value: 'alliance', label: 'By Alliance', icon: '🤝' },
   ];
 
   const currentMode = modes.find((m) => m.value === mode);
@@ -62,8 +64,8 @@ export function ColorModeSelector({ mode, onModeChange, years = [] }: ColorModeS
                 key={m.value}
                 onClick={() => {
                   onModeChange(m.value);
-                  // Keep open to show legend if year mode selected
-                  if (m.value !== 'year' && m.value !== 'frequency') {
+                  // Keep open to show the legend for modes that have one
+                  if (m.value !== 'year' && m.value !== 'frequency' && m.value !== 'alliance') {
                     setIsOpen(false);
                   }
                 }}
@@ -125,6 +127,22 @@ export function ColorModeSelector({ mode, onModeChange, years = [] }: ColorModeS
               </div>
             </div>
           )}
+
+          {/* Alliance Color Legend */}
+          {mode === 'alliance' && (
+            <div className="mt-3 pt-3 border-t border-gray-700">
+              <div className="text-gray-500 text-xs mb-2">Alliance Legend</div>
+              <div className="space-y-1">
+                {ALLIANCES.map((alliance) => (
+                  <div key={alliance} className="flex items-center gap-2 text-xs">
+                    <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: ALLIANCE_COLORS[alliance] }} />
+                    <span className="text-gray-400">{ALLIANCE_LABELS[alliance]}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="text-gray-600 text-xs mt-2">Membership on the date flown</div>
+            </div>
+          )}
         </div>
       )}
     </div>
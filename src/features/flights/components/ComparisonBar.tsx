@@ -0,0 +1,136 @@
+import type { AirlineCount, ComparisonFilters, ComparisonSide, FlightComparison, TravelerCount } from '../types';
+import { describeAirlineFilter, getSingleAirline } from '../utils/airlineFilter';
+import { ALLIANCES, ALLIANCE_LABELS, parseAllianceFilter } from '../utils/alliances';
+import { COMPARISON_COLORS, describeComparisonFilters } from '../utils/comparison';
+
+interface ComparisonBarProps {
+  sideA: ComparisonFilters;
+  sideB: ComparisonFilters;
+  onSideBChange: (filters: ComparisonFilters) => void;
+  onSwap: () => void;
+  onClose: () => void;
+  comparison: FlightComparison | null;
+  years: number[];
+  airlines: AirlineCount[];
+  travelers: TravelerCount[];
+}
+
+const SIDE_LABELS: Record<ComparisonSide, string> = {
+  a: 'A only',
+  b: 'B only',
+  both: 'Both',
+};
+
+// Placeholder option for an airline filter the select can't express
+const MULTI_AIRLINE_VALUE = '__multiple__';
+
+const selectClassName =
+  'bg-gray-800 border border-gray-700 rounded px-1.5 py-1 text-xs text-gray-200 focus:outline-none focus:border-orange-400 max-w-32';
+
+export function ComparisonBar({
+  sideA,
+  sideB,
+  onSideBChange,
+  onSwap,
+  onClose,
+  comparison,
+  years,
+  airlines,
+  travelers,
+}: ComparisonBarProps) {
+  const update = (changes: Partial<ComparisonFilters>) => onSideBChange({ ...sideB, ...changes });
+  // The select picks one airline; a wider filter (swapped in from side A) is shown until replaced
+  const sideBAirline = getSingleAirline(sideB.airlines);
+  const multiAirlineLabel = sideB.airlines && !sideBAirline ? describeAirlineFilter(sideB.airlines) : null;
+
+  return (
+    <div
+      className="absolute top-28 left-1/2 -translate-x-1/2 z-20 max-w-[calc(100vw-2rem)] bg-gray-900/95 backdrop-blur rounded-lg border border-gray-700 shadow-xl px-3 py-2 text-xs"
+      role="region"
+      aria-label="Compare filter sets"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="flex items-center gap-1.5 text-gray-300">
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COMPARISON_COLORS.a }} />
+          <span className="font-semibold">A</span>
+          <span className="truncate max-w-40" title="Set with the filter panel">{describeComparisonFilters(sideA)}</span>
+        </span>
+        <button
+          onClick={onSwap}
+          className="text-gray-500 hover:text-white px-1"
+          title="Swap A and B"
+          aria-label="Swap A and B"
+        >
+          ⇄
+        </button>
+        <span className="flex items-center gap-1.5 text-gray-300">
+          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COMPARISON_COLORS.b }} />
+          <span className="font-semibold">B</span>
+        </span>
+        <select
+          value={sideB.selectedYear ?? ''}
+          onChange={(e) => update({ selectedYear: e.target.value ? Number(e.target.value) : null })}
+          className={selectClassName}
+          aria-label="Side B year"
+        >
+          <option value="">All years</option>
+          {[...years].reverse().map((year) => (
+            <option key={year} value={year}>{year}</option>
+          ))}
+        </select>
+        <select
+          value={multiAirlineLabel ? MULTI_AIRLINE_VALUE : sideBAirline ?? ''}
+          onChange={(e) => update({ airlines: e.target.value ? { include: [e.target.value], exclude: [] } : null })}
+          className={selectClassName}
+          aria-label="Side B airline"
+        >
+          <option value="">All airlines</option>
+          {multiAirlineLabel && <option value={MULTI_AIRLINE_VALUE} disabled>{multiAirlineLabel}</option>}
+          {airlines.map(({ airline }) => (
+            <option key={airline} value={airline}>{airline}</option>
+          ))}
+        </select>
+        <select
+          value={sideB.selectedAlliance ?? ''}
+          onChange={(e) => update({ selectedAlliance: parseAllianceFilter(e.target.value) })}
+          className={selectClassName}
+          aria-label="Side B alliance"
+        >
+          <option value="">All alliances</option>
+          {ALLIANCES.map((alliance) => (
+            <option key={alliance} value={alliance}>{ALLIANCE_LABELS[alliance]}</option>
+          ))}
+        </select>
+        {travelers.length > 1 && (
+          <select
+            value={sideB.selectedTraveler ?? ''}
+            onChange={(e) => update({ selectedTraveler: e.target.value || null })}
+            className={selectClassName}
+            aria-label="Side B traveler"
+          >
+            <option value="">Everyone</option>
+            {travelers.map(({ traveler }) => (
+              <option key={traveler} value={traveler}>{traveler}</option>
+            ))}
+          </select>
+        )}
+        <button onClick={onClose} className="text-gray-500 hover:text-white ml-auto" aria-label="Exit compare mode">
+          ✕
+        </button>
+      </div>
+
+      {/* Route legend */}
+      {comparison && (
+        <div className="flex flex-wrap items-center gap-3 mt-1.5 text-gray-400">
+          {(Object.keys(SIDE_LABELS) as ComparisonSide[]).map((side) => (
+            <span key={side} className="flex items-center gap-1">
+              <span className="w-3 h-0.5 rounded" style={{ backgroundColor: COMPARISON_COLORS[side] }} />
+              {SIDE_LABELS[side]}
+              <span className="text-gray-500">({comparison.routeCounts[side]} routes)</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
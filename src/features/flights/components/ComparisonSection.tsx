@@ -0,0 +1,88 @@
+import { CollapsibleSection, ClickableAirport } from './shared';
+import { COMPARISON_COLORS } from '../utils/comparison';
+import type { FlightComparison, FlightStats } from '../types';
+
+interface ComparisonSectionProps {
+  comparison: FlightComparison;
+  labelA: string;
+  labelB: string;
+  onAirportClick: (code: string) => void;
+  validAirportCodes: Set<string>;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+const METRICS: { label: string; value: (stats: FlightStats) => number; unit?: string }[] = [
+  { label: 'Flights', value: (stats) => stats.totalFlights },
+  { label: 'Distance', value: (stats) => stats.totalDistance, unit: 'km' },
+  { label: 'Countries', value: (stats) => stats.totalCountries },
+  { label: 'Airports', value: (stats) => stats.totalAirports },
+  { label: 'Routes', value: (stats) => stats.uniqueRoutes },
+];
+
+function formatDelta(delta: number): string {
+  if (delta === 0) return '±0';
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta).toLocaleString()}`;
+}
+
+// B relative to A for the headline stats, plus the airports B adds
+export function ComparisonSection({
+  comparison,
+  labelA,
+  labelB,
+  onAirportClick,
+  validAirportCodes,
+  isOpen,
+  onToggle,
+}: ComparisonSectionProps) {
+  const { a, b, newAirports } = comparison;
+
+  return (
+    <CollapsibleSection title="Comparison" icon="⇄" isOpen={isOpen} onToggle={onToggle}>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal pb-1" />
+            <th className="text-right font-normal pb-1 truncate max-w-20" title={labelA} style={{ color: COMPARISON_COLORS.a }}>A</th>
+            <th className="text-right font-normal pb-1 truncate max-w-20" title={labelB} style={{ color: COMPARISON_COLORS.b }}>B</th>
+            <th className="text-right font-normal pb-1">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {METRICS.map(({ label, value, unit }) => {
+            const delta = value(b) - value(a);
+            return (
+              <tr key={label} className="text-gray-300">
+                <td className="py-0.5 text-gray-400">{label}</td>
+                <td className="py-0.5 text-right">{value(a).toLocaleString()}</td>
+                <td className="py-0.5 text-right">{value(b).toLocaleString()}</td>
+                <td className={`py-0.5 text-right ${delta > 0 ? 'text-green-400' : delta < 0 ? 'text-red-400' : 'text-gray-500'}`}>
+                  {formatDelta(delta)}
+                  {unit && delta !== 0 && <span className="text-gray-500"> {unit}</span>}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="mt-3">
+        <div className="text-gray-500 text-xs mb-1">New airports in B ({newAirports.length})</div>
+        {newAirports.length > 0 ? (
+          <div className="flex flex-wrap gap-x-2 gap-y-1 text-sm">
+            {newAirports.map((code) => (
+              <ClickableAirport
+                key={code}
+                code={code}
+                onClick={onAirportClick}
+                validAirports={validAirportCodes}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-gray-600 text-xs">None - every airport in B was visited in A</div>
+        )}
+      </div>
+    </CollapsibleSection>
+  );
+}
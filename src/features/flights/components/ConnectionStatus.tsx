@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { useOfflineStatus } from '../hooks/useOfflineStatus';
+
+// Small pill shown while offline, or when newer flight data has been cached in the background
+export function ConnectionStatus() {
+  const { online, dataUpdatedAt } = useOfflineStatus();
+  const [dismissedUpdate, setDismissedUpdate] = useState<string | null>(null);
+
+  if (!online) {
+    return (
+      <div className="absolute top-16 right-4 z-20" role="status">
+        <div
+          className="bg-gray-900/95 backdrop-blur px-3 py-1.5 rounded-full border border-gray-600 text-xs text-gray-300 flex items-center gap-2 shadow-lg"
+          title="Showing the flights saved on this device"
+        >
+          <span className="w-2 h-2 rounded-full bg-gray-500" aria-hidden="true" />
+          Offline
+        </div>
+      </div>
+    );
+  }
+
+  if (dataUpdatedAt && dataUpdatedAt !== dismissedUpdate) {
+    return (
+      <div className="absolute top-16 right-4 z-20" role="status">
+        <div className="bg-gray-900/95 backdrop-blur pl-3 pr-2 py-1.5 rounded-full border border-green-500/50 text-xs flex items-center gap-2 shadow-lg">
+          <span className="w-2 h-2 rounded-full bg-green-400" aria-hidden="true" />
+          <span className="text-gray-300">Flight data updated</span>
+          <button onClick={() => window.location.reload()} className="text-green-400 hover:text-green-300 font-medium">
+            Reload
+          </button>
+          <button
+            onClick={() => setDismissedUpdate(dataUpdatedAt)}
+            className="text-gray-500 hover:text-white"
+            aria-label="Dismiss data update notice"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return null;
+}
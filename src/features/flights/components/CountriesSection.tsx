@@ -3,14 +3,16 @@ import { CollapsibleSection } from './shared';
 
 interface CountriesSectionProps {
   topCountries: { code: string; name: string; count: number; departures: number; arrivals: number }[];
-  onCountryClick: (countryCode: string) => void;
+  selectedCountry: string | null;
+  onCountrySelect: (countryCode: string | null) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
 export function CountriesSection({
   topCountries,
-  onCountryClick,
+  selectedCountry,
+  onCountrySelect,
   isOpen,
   onToggle,
 }: CountriesSectionProps) {
@@ -31,9 +33,12 @@ export function CountriesSection({
         {visibleCountries.map(({ code, name, count, arrivals, departures }) => (
           <div key={code} className="flex justify-between items-center text-xs">
             <button
-              onClick={() => onCountryClick(code)}
-              className="text-gray-300 hover:text-cyan-400 transition-colors text-left truncate max-w-[180px]"
-              title={name}
+              onClick={() => onCountrySelect(selectedCountry === code ? null : code)}
+              className={`transition-colors text-left truncate max-w-[180px] ${
+                selectedCountry === code ? 'text-cyan-400 font-medium' : 'text-gray-300 hover:text-cyan-400'
+              }`}
+              title={selectedCountry === code ? 'Show all countries' : `Filter by ${name}`}
+              aria-pressed={selectedCountry === code}
             >
               {name}
             </button>
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { DataIssue, DataIssueReason } from '../types';
+
+interface DataQualityNoticeProps {
+  issues: DataIssue[];
+  onDismiss: () => void;
+}
+
+const REASON_LABELS: Record<DataIssueReason, string> = {
+  'invalid-feature': 'malformed',
+  'missing-coordinates': 'missing coordinates',
+  'invalid-date': 'unparseable date',
+  'unknown-airport': 'unknown airport code',
+  'invalid-metadata': 'metadata problem',
+};
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export function DataQualityNotice({ issues, onDismiss }: DataQualityNoticeProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const flights = issues.filter((issue) => issue.kind === 'flight').length;
+  const airports = issues.filter((issue) => issue.kind === 'airport').length;
+  const skipped = [flights > 0 && plural(flights, 'flight'), airports > 0 && plural(airports, 'airport')].filter(Boolean);
+
+  const reasonCounts = new Map<DataIssueReason, number>();
+  issues.forEach((issue) => reasonCounts.set(issue.reason, (reasonCounts.get(issue.reason) ?? 0) + 1));
+
+  return (
+    <div
+      className="absolute bottom-20 left-4 z-20 w-80 max-w-[calc(100vw-2rem)] bg-gray-900/95 backdrop-blur rounded-lg border border-yellow-500/40 shadow-xl p-3 text-xs"
+      role="status"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-yellow-400 font-medium">
+            {skipped.length > 0 ? `Skipped ${skipped.join(' and ')} with invalid data` : 'Flight data has problems'}
+          </div>
+          <div className="text-gray-400 mt-0.5">
+            {Array.from(reasonCounts.entries())
+              .map(([reason, count]) => `${count} ${REASON_LABELS[reason]}`)
+              .join(' • ')}
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-gray-500 hover:text-white" aria-label="Dismiss data quality notice">
+          ✕
+        </button>
+      </div>
+
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        className="text-gray-500 hover:text-gray-300 mt-2"
+        aria-expanded={expanded}
+      >
+        {expanded ? 'Hide details' : 'Show details'}
+      </button>
+      {expanded && (
+        <div className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+          {issues.map((issue, index) => (
+            <div key={index} className="text-gray-400">{issue.message}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
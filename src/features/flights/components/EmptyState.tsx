@@ -1,48 +1,22 @@
 interface EmptyStateProps {
-  selectedYear: number | null;
-  selectedAirline: string | null;
-  selectedAirport: string | null;
+  filters: string[]; // labels of the active filters, e.g. "2019", "to or from France"
   onClearFilters: () => void;
 }
 
-export function EmptyState({
-  selectedYear,
-  selectedAirline,
-  selectedAirport,
-  onClearFilters,
-}: EmptyStateProps) {
-  const hasFilters = selectedYear !== null || selectedAirline !== null || selectedAirport !== null;
-
-  if (!hasFilters) return null;
-
+export function EmptyState({ filters, onClearFilters }: EmptyStateProps) {
   return (
     <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
       <div className="bg-gray-900/95 backdrop-blur rounded-xl border border-gray-700 p-6 max-w-sm mx-4 text-center pointer-events-auto">
         <div className="text-4xl mb-3">🔍</div>
         <h3 className="text-white font-semibold mb-2">No flights found</h3>
         <p className="text-gray-400 text-sm mb-4">
-          {selectedYear && selectedAirline && (
-            <>
-              No flights in <span className="text-purple-400">{selectedYear}</span> with{' '}
-              <span className="text-orange-400">{selectedAirline}</span>
-            </>
-          )}
-          {selectedYear && !selectedAirline && (
-            <>
-              No flights found in <span className="text-purple-400">{selectedYear}</span>
-            </>
-          )}
-          {!selectedYear && selectedAirline && (
-            <>
-              No flights found with <span className="text-orange-400">{selectedAirline}</span>
-            </>
-          )}
-          {selectedAirport && (
-            <>
-              {' '}
-              through <span className="text-cyan-400">{selectedAirport}</span>
-            </>
-          )}
+          No flights match{' '}
+          {filters.map((filter, i) => (
+            <span key={i}>
+              {i > 0 && (i === filters.length - 1 ? ' and ' : ', ')}
+              <span className="text-purple-400">{filter}</span>
+            </span>
+          ))}
         </p>
         <button
           onClick={onClearFilters}
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { downloadExport, EXPORT_FORMAT_LABELS } from '../utils/export';
+import type { ExportFormat, FlightProperties, GlobePoint } from '../types';
+
+interface ExportMenuProps {
+  flights: FlightProperties[];
+  airports: GlobePoint[];
+  fileName: string; // without extension
+}
+
+const FORMATS: ExportFormat[] = ['geojson', 'kml', 'gpx', 'csv-flights', 'csv-airports'];
+
+export function ExportMenu({ flights, airports, fileName }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={flights.length === 0}
+        className={`bg-gray-900/90 backdrop-blur p-2 rounded-lg border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+          isOpen
+            ? 'border-purple-500/50 text-purple-400 hover:bg-purple-900/30'
+            : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800/90'
+        }`}
+        title="Export visible flights"
+        aria-label="Export visible flights and airports"
+        aria-expanded={isOpen}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-0 right-12 w-48 bg-gray-900/95 backdrop-blur rounded-lg border border-gray-700 shadow-xl p-2 z-30">
+          <div className="text-gray-500 text-xs px-2 pb-1 mb-1 border-b border-gray-700">
+            {flights.length} flight{flights.length !== 1 ? 's' : ''} • {airports.length} airport{airports.length !== 1 ? 's' : ''}
+          </div>
+          {FORMATS.map((format) => (
+            <button
+              key={format}
+              onClick={() => {
+                downloadExport(format, flights, airports, fileName);
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-2 py-1 rounded text-xs text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
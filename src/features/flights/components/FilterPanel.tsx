@@ -1,27 +1,181 @@
 import { useState, useMemo, useRef, useEffect } from 'react';
-import type { GlobePoint } from '../types';
+import type {
+  AirlineCount,
+  AirlineFilter,
+  DateRange,
+  GlobePoint,
+  FlightProperties,
+  FlightType,
+  HaulLength,
+  HaulThresholds,
+  MonthCount,
+  PlaceFilter,
+  PlaceKind,
+  TravelerCount,
+} from '../types';
+import { formatFlightDate } from '../utils/dates';
+import { formatDateRange } from '../utils/dateRange';
+import { PLACE_KINDS, PLACE_KIND_LABELS, getPlaceName } from '../utils/places';
+import {
+  FLIGHT_TYPES,
+  FLIGHT_TYPE_LABELS,
+  HAUL_LENGTHS,
+  HAUL_LABELS,
+  DEFAULT_HAUL_THRESHOLDS,
+  formatHaulRange,
+} from '../utils/flightTypes';
+import { describeAirlineFilter, toggleAirline } from '../utils/airlineFilter';
+import { TimelineScrubber } from './TimelineScrubber';
 
 interface FilterPanelProps {
   years: number[];
   selectedYear: number | null;
   onYearChange: (year: number | null) => void;
+  monthlyCounts: MonthCount[];
+  dateRange: DateRange | null;
+  onDateRangeChange: (range: DateRange | null) => void;
+  // Countries, regions and continents are picked in the stats panel; the section shows them once set
+  places: PlaceFilter | null;
+  onPlaceChange: (kind: PlaceKind, code: string | null) => void;
+  onPlaceWithinChange: (within: boolean) => void;
+  flightType: FlightType | null;
+  onFlightTypeChange: (type: FlightType | null) => void;
+  haul: HaulLength | null;
+  onHaulChange: (haul: HaulLength | null) => void;
+  haulThresholds: HaulThresholds;
+  onHaulThresholdsChange: (thresholds: HaulThresholds) => void;
+  flightTypeCounts: Record<FlightType, number>;
+  haulCounts: Record<HaulLength, number>;
+  airlineCounts: AirlineCount[];
+  airlineFilter: AirlineFilter | null;
+  onAirlineFilterChange: (filter: AirlineFilter | null) => void;
   flightCount: number;
-  // Airport search
+  // Airport and flight search
   airports: GlobePoint[];
   onAirportSelect: (code: string) => void;
+  flights: FlightProperties[];
+  onFlightSelect: (flight: FlightProperties) => void;
+  // Multi-traveler logs; the section is hidden for a single traveler
+  travelers: TravelerCount[];
+  selectedTraveler: string | null;
+  onTravelerChange: (traveler: string | null) => void;
+  showShared: boolean;
+  onSharedChange: (shared: boolean) => void;
+  onClearAll: () => void;
+}
+
+// Normalize flight numbers so "LX41", "lx 41" and "LX 41" all match
+function normalizeFlightNumber(value: string): string {
+  return value.replace(/\s+/g, '').toLowerCase();
+}
+
+const VISIBLE_AIRLINES = 8;
+
+// Haul band limits in km, applied when a field loses focus (or on Enter) if short < long
+function HaulThresholdsForm({
+  thresholds,
+  onChange,
+}: {
+  thresholds: HaulThresholds;
+  onChange: (thresholds: HaulThresholds) => void;
+}) {
+  const [shortMax, setShortMax] = useState(String(thresholds.shortMax));
+  const [longMin, setLongMin] = useState(String(thresholds.longMin));
+  const isDefault =
+    thresholds.shortMax === DEFAULT_HAUL_THRESHOLDS.shortMax && thresholds.longMin === DEFAULT_HAUL_THRESHOLDS.longMin;
+
+  const apply = () => {
+    const next = { shortMax: Math.round(Number(shortMax)), longMin: Math.round(Number(longMin)) };
+    if (next.shortMax > 0 && next.shortMax < next.longMin) {
+      if (next.shortMax !== thresholds.shortMax || next.longMin !== thresholds.longMin) onChange(next);
+    } else {
+      setShortMax(String(thresholds.shortMax));
+      setLongMin(String(thresholds.longMin));
+    }
+  };
+
+  const inputClassName =
+    'w-16 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-xs text-gray-200 focus:outline-none focus:border-purple-500';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-gray-500">
+      <label className="flex items-center gap-1">
+        Short under
+        <input
+          type="number"
+          min={1}
+          step={100}
+          value={shortMax}
+          onChange={(e) => setShortMax(e.target.value)}
+          onBlur={apply}
+          onKeyDown={(e) => e.key === 'Enter' && apply()}
+          className={inputClassName}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        long from
+        <input
+          type="number"
+          min={1}
+          step={100}
+          value={longMin}
+          onChange={(e) => setLongMin(e.target.value)}
+          onBlur={apply}
+          onKeyDown={(e) => e.key === 'Enter' && apply()}
+          className={inputClassName}
+        />
+        km
+      </label>
+      {!isDefault && (
+        <button
+          onClick={() => onChange(DEFAULT_HAUL_THRESHOLDS)}
+          className="text-gray-500 hover:text-white transition-colors"
+        >
+          Reset
+        </button>
+      )}
+    </div>
+  );
 }
 
 export function FilterPanel({
   years,
   selectedYear,
   onYearChange,
+  monthlyCounts,
+  dateRange,
+  onDateRangeChange,
+  places,
+  onPlaceChange,
+  onPlaceWithinChange,
+  flightType,
+  onFlightTypeChange,
+  haul,
+  onHaulChange,
+  haulThresholds,
+  onHaulThresholdsChange,
+  flightTypeCounts,
+  haulCounts,
+  airlineCounts,
+  airlineFilter,
+  onAirlineFilterChange,
   flightCount,
   airports,
   onAirportSelect,
+  flights,
+  onFlightSelect,
+  travelers,
+  selectedTraveler,
+  onTravelerChange,
+  showShared,
+  onSharedChange,
+  onClearAll,
 }: FilterPanelProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({ year: true });
+  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({ dateRange: true, year: true, traveler: true });
   const [searchQuery, setSearchQuery] = useState('');
+  const [airlineQuery, setAirlineQuery] = useState('');
+  const [showAllAirlines, setShowAllAirlines] = useState(false);
   const [showSearchResults, setShowSearchResults] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
 
@@ -43,7 +197,9 @@ export function FilterPanel({
   const decades = Object.keys(yearsByDecade)
     .map(Number)
     .sort((a, b) => b - a);
-  const hasActiveFilters = selectedYear !== null;
+  const activeFilterCount = [selectedYear !== null, dateRange !== null, places !== null, flightType !== null, haul !== null, airlineFilter !== null, selectedTraveler !== null, showShared].filter(Boolean).length;
+  const hasActiveFilters = activeFilterCount > 0;
+  const hasSharedFlights = travelers.some((t) => t.sharedFlights > 0);
 
   // Airport search results
   const searchResults = useMemo(() => {
@@ -53,12 +209,42 @@ export function FilterPanel({
       .filter(
         (p) =>
           p.airport.code.toLowerCase().includes(query) ||
+          p.airport.icaoCode?.toLowerCase().includes(query) ||
           p.airport.name.toLowerCase().includes(query) ||
           p.airport.municipality?.toLowerCase().includes(query)
       )
       .slice(0, 8);
   }, [searchQuery, airports]);
 
+  // Flight search results (by flight number or notes)
+  const flightResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    const query = searchQuery.trim().toLowerCase();
+    const flightNumberQuery = normalizeFlightNumber(query);
+    return flights
+      .filter(
+        (f) =>
+          (f.flightNumber && normalizeFlightNumber(f.flightNumber).includes(flightNumberQuery)) ||
+          (f.notes && f.notes.toLowerCase().includes(query))
+      )
+      .slice(0, 8);
+  }, [searchQuery, flights]);
+
+  const hasSearchResults = searchResults.length > 0 || flightResults.length > 0;
+
+  // Airlines in the filter first, then by flight count; matching the airline search if there is one
+  const airlineOptions = useMemo(() => {
+    const query = airlineQuery.trim().toLowerCase();
+    const inFilter = (airline: string) =>
+      !!airlineFilter && (airlineFilter.include.includes(airline) || airlineFilter.exclude.includes(airline));
+    return airlineCounts
+      .filter((a) => !query || a.airline.toLowerCase().includes(query) || a.designator.toLowerCase().includes(query))
+      .sort((a, b) => Number(inFilter(b.airline)) - Number(inFilter(a.airline)));
+  }, [airlineCounts, airlineFilter, airlineQuery]);
+  const visibleAirlineOptions = showAllAirlines || airlineQuery.trim()
+    ? airlineOptions
+    : airlineOptions.slice(0, VISIBLE_AIRLINES);
+
   // Close search results when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -90,7 +276,7 @@ export function FilterPanel({
           />
         </svg>
         {hasActiveFilters && (
-          <span className="bg-purple-600 text-white text-xs px-1.5 py-0.5 rounded-full">1</span>
+          <span className="bg-purple-600 text-white text-xs px-1.5 py-0.5 rounded-full">{activeFilterCount}</span>
         )}
       </button>
 
@@ -102,7 +288,7 @@ export function FilterPanel({
             <h3 className="text-white font-medium text-sm">Filters</h3>
             {hasActiveFilters && (
               <button
-                onClick={() => onYearChange(null)}
+                onClick={onClearAll}
                 className="text-xs text-gray-400 hover:text-white transition-colors"
               >
                 Clear all
@@ -116,7 +302,7 @@ export function FilterPanel({
             <div className="border-b border-gray-800 px-4 py-3">
               <div className="flex items-center gap-2 mb-2">
                 <span className="text-gray-400">🔍</span>
-                <span className="text-gray-200 text-sm font-medium">Find Airport</span>
+                <span className="text-gray-200 text-sm font-medium">Search</span>
               </div>
               <div className="relative" ref={searchInputRef}>
                 <input
@@ -127,10 +313,10 @@ export function FilterPanel({
                     setShowSearchResults(true);
                   }}
                   onFocus={() => setShowSearchResults(true)}
-                  placeholder="Search by code or name..."
+                  placeholder="Airport, flight number or notes..."
                   className="w-full bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-purple-500"
                 />
-                {showSearchResults && searchResults.length > 0 && (
+                {showSearchResults && hasSearchResults && (
                   <div className="absolute top-full left-0 right-0 mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-xl max-h-48 overflow-y-auto z-50">
                     {searchResults.map((point) => (
                       <button
@@ -145,6 +331,9 @@ export function FilterPanel({
                       >
                         <div className="text-cyan-400 text-sm font-medium">
                           {point.airport.code}
+                          {point.airport.icaoCode && point.airport.icaoCode !== point.airport.code && (
+                            <span className="text-gray-500 text-xs font-normal ml-1.5">{point.airport.icaoCode}</span>
+                          )}
                         </div>
                         <div className="text-gray-400 text-xs truncate">{point.airport.name}</div>
                         <div className="text-gray-500 text-xs">
@@ -152,16 +341,171 @@ export function FilterPanel({
                         </div>
                       </button>
                     ))}
+                    {flightResults.map((flight) => (
+                      <button
+                        key={flight.id}
+                        onClick={() => {
+                          onFlightSelect(flight);
+                          setSearchQuery('');
+                          setShowSearchResults(false);
+                          setIsOpen(false);
+                        }}
+                        className="w-full px-3 py-2 text-left hover:bg-gray-700 transition-colors"
+                      >
+                        <div className="text-sm font-medium">
+                          <span className="text-purple-300">
+                            {flight.origin_code} → {flight.destination_code}
+                          </span>
+                          {flight.flightNumber && (
+                            <span className="text-orange-400 ml-2">{flight.flightNumber}</span>
+                          )}
+                        </div>
+                        <div className="text-gray-400 text-xs">
+                          {formatFlightDate(flight.flightDate)}
+                          {flight.airline && ` • ${flight.airline}`}
+                        </div>
+                        {flight.notes && (
+                          <div className="text-gray-500 text-xs truncate italic">{flight.notes}</div>
+                        )}
+                      </button>
+                    ))}
                   </div>
                 )}
-                {showSearchResults && searchQuery && searchResults.length === 0 && (
+                {showSearchResults && searchQuery && !hasSearchResults && (
                   <div className="absolute top-full left-0 right-0 mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-3 text-center text-gray-500 text-sm">
-                    No airports found
+                    No airports or flights found
                   </div>
                 )}
               </div>
             </div>
 
+            {/* Traveler Filter Section */}
+            {travelers.length > 1 && (
+              <div className="border-b border-gray-800">
+                <button
+                  onClick={() => toggleSection('traveler')}
+                  className="flex items-center justify-between w-full px-4 py-3 text-left hover:bg-gray-800/50 transition-colors"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-400">👥</span>
+                    <span className="text-gray-200 text-sm font-medium">Traveler</span>
+                    {selectedTraveler && (
+                      <span className="bg-purple-600 text-white text-xs px-2 py-0.5 rounded-full truncate max-w-32">
+                        {selectedTraveler}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-gray-500 text-xs">{expandedSections.traveler ? '▼' : '▶'}</span>
+                </button>
+
+                {expandedSections.traveler && (
+                  <div className="px-4 pb-4 space-y-1">
+                    <button
+                      onClick={() => onTravelerChange(null)}
+                      className={`w-full px-3 py-1.5 rounded text-sm text-left transition-colors ${
+                        selectedTraveler === null
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      Everyone
+                    </button>
+                    {travelers.map(({ traveler, count }) => (
+                      <button
+                        key={traveler}
+                        onClick={() => onTravelerChange(selectedTraveler === traveler ? null : traveler)}
+                        className={`w-full px-3 py-1.5 rounded text-sm flex items-center justify-between transition-colors ${
+                          selectedTraveler === traveler
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                        }`}
+                      >
+                        <span className="truncate">{traveler}</span>
+                        <span className="text-xs opacity-70">{count}</span>
+                      </button>
+                    ))}
+                    {hasSharedFlights && (
+                      <label className="flex items-center gap-2 pt-2 text-sm text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showShared}
+                          onChange={(e) => onSharedChange(e.target.checked)}
+                          className="accent-yellow-400"
+                        />
+                        <span>Highlight shared flights</span>
+                      </label>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Places Section */}
+            {places && (
+              <div className="border-b border-gray-800 px-4 py-3">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="text-gray-400">🌍</span>
+                  <span className="text-gray-200 text-sm font-medium">Places</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {PLACE_KINDS.filter((kind) => places[kind] !== null).map((kind) => (
+                    <button
+                      key={kind}
+                      onClick={() => onPlaceChange(kind, null)}
+                      className="bg-cyan-700/60 hover:bg-cyan-700 text-white text-xs px-2 py-1 rounded-full transition-colors"
+                      aria-label={`Clear ${PLACE_KIND_LABELS[kind].toLowerCase()} filter`}
+                    >
+                      <span className="text-cyan-200">{PLACE_KIND_LABELS[kind]}:</span>{' '}
+                      {getPlaceName(kind, places[kind]!, airports.map((p) => p.airport))} ✕
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-1 mt-2" role="group" aria-label="Match flights">
+                  {[false, true].map((within) => (
+                    <button
+                      key={String(within)}
+                      onClick={() => onPlaceWithinChange(within)}
+                      aria-pressed={places.within === within}
+                      className={`px-2 py-1.5 rounded text-xs font-medium transition-colors ${
+                        places.within === within
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-200'
+                      }`}
+                    >
+                      {within ? 'Fully within' : 'To or from'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Date Range Section */}
+            {monthlyCounts.length > 1 && (
+              <div className="border-b border-gray-800">
+                <button
+                  onClick={() => toggleSection('dateRange')}
+                  className="flex items-center justify-between w-full px-4 py-3 text-left hover:bg-gray-800/50 transition-colors"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-gray-400">🗓️</span>
+                    <span className="text-gray-200 text-sm font-medium">Date Range</span>
+                    {dateRange && (
+                      <span className="bg-purple-600 text-white text-xs px-2 py-0.5 rounded-full truncate">
+                        {formatDateRange(dateRange)}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-gray-500 text-xs">{expandedSections.dateRange ? '▼' : '▶'}</span>
+                </button>
+
+                {expandedSections.dateRange && (
+                  <div className="px-4 pb-4">
+                    <TimelineScrubber months={monthlyCounts} range={dateRange} onChange={onDateRangeChange} />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Year Filter Section */}
             <div className="border-b border-gray-800">
               <button
@@ -224,6 +568,165 @@ export function FilterPanel({
                 </div>
               )}
             </div>
+
+            {/* Flight Type and Haul Section */}
+            <div className="border-b border-gray-800">
+              <button
+                onClick={() => toggleSection('flightType')}
+                className="flex items-center justify-between w-full px-4 py-3 text-left hover:bg-gray-800/50 transition-colors"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-gray-400">🌐</span>
+                  <span className="text-gray-200 text-sm font-medium">Flight Type</span>
+                  {(flightType || haul) && (
+                    <span className="bg-purple-600 text-white text-xs px-2 py-0.5 rounded-full truncate">
+                      {[flightType && FLIGHT_TYPE_LABELS[flightType], haul && HAUL_LABELS[haul]].filter(Boolean).join(', ')}
+                    </span>
+                  )}
+                </div>
+                <span className="text-gray-500 text-xs">{expandedSections.flightType ? '▼' : '▶'}</span>
+              </button>
+
+              {expandedSections.flightType && (
+                <div className="px-4 pb-4 space-y-3">
+                  <div className="space-y-1">
+                    {FLIGHT_TYPES.map((type) => (
+                      <button
+                        key={type}
+                        onClick={() => onFlightTypeChange(flightType === type ? null : type)}
+                        aria-pressed={flightType === type}
+                        className={`w-full flex items-center justify-between px-3 py-1.5 rounded text-xs font-medium transition-colors ${
+                          flightType === type
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                        }`}
+                      >
+                        <span>{FLIGHT_TYPE_LABELS[type]}</span>
+                        <span className={flightType === type ? 'text-purple-200' : 'text-gray-500'}>{flightTypeCounts[type]}</span>
+                      </button>
+                    ))}
+                  </div>
+
+                  <div>
+                    <div className="text-gray-500 text-xs uppercase tracking-wide mb-2">Distance</div>
+                    <div className="space-y-1">
+                      {HAUL_LENGTHS.map((length) => (
+                        <button
+                          key={length}
+                          onClick={() => onHaulChange(haul === length ? null : length)}
+                          aria-pressed={haul === length}
+                          className={`w-full flex items-center justify-between px-3 py-1.5 rounded text-xs font-medium transition-colors ${
+                            haul === length
+                              ? 'bg-purple-600 text-white'
+                              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                          }`}
+                        >
+                          <span>
+                            {HAUL_LABELS[length]}
+                            <span className={`font-normal ml-1 ${haul === length ? 'text-purple-200' : 'text-gray-500'}`}>
+                              {formatHaulRange(length, haulThresholds)}
+                            </span>
+                          </span>
+                          <span className={haul === length ? 'text-purple-200' : 'text-gray-500'}>{haulCounts[length]}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <HaulThresholdsForm
+                      key={`${haulThresholds.shortMax}-${haulThresholds.longMin}`}
+                      thresholds={haulThresholds}
+                      onChange={onHaulThresholdsChange}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Airlines Section */}
+            {airlineCounts.length > 1 && (
+              <div className="border-b border-gray-800">
+                <button
+                  onClick={() => toggleSection('airlines')}
+                  className="flex items-center justify-between w-full px-4 py-3 text-left hover:bg-gray-800/50 transition-colors"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-gray-400">✈️</span>
+                    <span className="text-gray-200 text-sm font-medium">Airlines</span>
+                    {airlineFilter && (
+                      <span className="bg-orange-600 text-white text-xs px-2 py-0.5 rounded-full truncate">
+                        {describeAirlineFilter(airlineFilter)}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-gray-500 text-xs">{expandedSections.airlines ? '▼' : '▶'}</span>
+                </button>
+
+                {expandedSections.airlines && (
+                  <div className="px-4 pb-4">
+                    <input
+                      type="search"
+                      value={airlineQuery}
+                      onChange={(e) => setAirlineQuery(e.target.value)}
+                      placeholder="Find an airline..."
+                      aria-label="Find an airline"
+                      className="w-full mb-2 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 placeholder-gray-500 focus:outline-none focus:border-purple-500"
+                    />
+                    <div className="space-y-0.5">
+                      {visibleAirlineOptions.map(({ airline, count, designator, color }) => {
+                        const included = airlineFilter?.include.includes(airline) ?? false;
+                        const excluded = airlineFilter?.exclude.includes(airline) ?? false;
+                        return (
+                          <div key={airline} className="flex items-center gap-1 text-xs">
+                            <button
+                              onClick={() => onAirlineFilterChange(toggleAirline(airlineFilter, airline, included ? null : 'include'))}
+                              aria-pressed={included}
+                              className={`flex-1 min-w-0 flex items-center gap-1.5 px-2 py-1 rounded text-left transition-colors ${
+                                included ? 'bg-orange-600 text-white' : 'text-gray-300 hover:bg-gray-800'
+                              }`}
+                              title={designator ? `${airline} (${designator})` : airline}
+                            >
+                              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                              <span className={`truncate ${excluded ? 'line-through text-gray-600' : ''}`}>{airline}</span>
+                              {designator && <span className="opacity-60 font-mono">{designator}</span>}
+                              <span className={`ml-auto ${included ? 'text-orange-100' : 'text-gray-500'}`}>{count}</span>
+                            </button>
+                            <button
+                              onClick={() => onAirlineFilterChange(toggleAirline(airlineFilter, airline, excluded ? null : 'exclude'))}
+                              aria-pressed={excluded}
+                              aria-label={excluded ? `Stop excluding ${airline}` : `Exclude ${airline}`}
+                              title={excluded ? 'Stop excluding' : 'Exclude'}
+                              className={`w-6 py-1 rounded transition-colors ${
+                                excluded ? 'bg-red-900/60 text-red-300' : 'text-gray-600 hover:text-red-400 hover:bg-gray-800'
+                              }`}
+                            >
+                              ⊘
+                            </button>
+                          </div>
+                        );
+                      })}
+                      {airlineOptions.length === 0 && <div className="text-gray-600 text-xs px-2">No matching airlines</div>}
+                    </div>
+                    <div className="flex items-center justify-between mt-2">
+                      {!airlineQuery.trim() && airlineOptions.length > VISIBLE_AIRLINES ? (
+                        <button
+                          onClick={() => setShowAllAirlines(!showAllAirlines)}
+                          className="text-xs text-purple-400 hover:text-purple-300 transition-colors"
+                        >
+                          {showAllAirlines ? '← Show less' : `Show ${airlineOptions.length - VISIBLE_AIRLINES} more →`}
+                        </button>
+                      ) : <span />}
+                      {airlineFilter && (
+                        <button
+                          onClick={() => onAirlineFilterChange(null)}
+                          className="text-xs text-gray-500 hover:text-white transition-colors"
+                        >
+                          All airlines
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </div>
       )}
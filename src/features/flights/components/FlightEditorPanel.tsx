@@ -0,0 +1,293 @@
+import { useState, useMemo } from 'react';
+import { emptyRecord } from '../importers/records';
+import { createDraft, describeRecord, draftsToAddedRows, draftsToRemovedRows, recordFromFlight, DRAFT_ACTION_LABELS } from '../utils/drafts';
+import { downloadFile } from '../utils/export';
+import { formatFlightDate } from '../utils/dates';
+import type { FlightDraft, FlightDraftAction, FlightProperties, FlightRecord, ValidatedDraft } from '../types';
+
+interface FlightEditorPanelProps {
+  flights: FlightProperties[]; // flights on the globe, to pick one to edit or delete
+  drafts: FlightDraft[];
+  draftResults: ValidatedDraft[];
+  storageError: boolean;
+  onSave: (draft: FlightDraft) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+type EditableField = Exclude<keyof FlightRecord, 'row'>;
+
+interface EditorForm {
+  draft: FlightDraft | null; // draft being changed, null for a new one
+  action: FlightDraftAction;
+  target: FlightProperties | null; // published flight for a new edit
+  record: FlightRecord;
+}
+
+// flights.csv columns, in the order the form shows them
+const FIELDS: { key: EditableField; label: string; placeholder: string; wide?: boolean }[] = [
+  { key: 'date', label: 'Date', placeholder: '6/15/2008' },
+  { key: 'flightNumber', label: 'Flight', placeholder: 'UA 123' },
+  { key: 'origin', label: 'From', placeholder: 'LAX' },
+  { key: 'destination', label: 'To', placeholder: 'IAH' },
+  { key: 'departureTime', label: 'Departs', placeholder: '14:30' },
+  { key: 'arrivalTime', label: 'Arrives', placeholder: '19:55' },
+  { key: 'airline', label: 'Airline', placeholder: 'United Airlines', wide: true },
+  { key: 'trip', label: 'Trip', placeholder: 'Optional' },
+  { key: 'traveler', label: 'Traveler', placeholder: 'Optional' },
+  { key: 'notes', label: 'Notes', placeholder: 'Optional', wide: true },
+];
+
+const MAX_SEARCH_RESULTS = 6;
+
+const ACTION_COLORS: Record<FlightDraftAction, string> = {
+  add: 'text-green-400',
+  edit: 'text-amber-400',
+  delete: 'text-red-400',
+};
+
+const inputClassName =
+  'w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 placeholder-gray-600 focus:outline-none focus:border-purple-500';
+
+function matchesQuery(flight: FlightProperties, query: string): boolean {
+  return [flight.flightNumber, flight.airline, flight.origin_code, flight.destination_code, flight.date, formatFlightDate(flight.flightDate)]
+    .some((value) => value.toLowerCase().includes(query));
+}
+
+export function FlightEditorPanel({
+  flights,
+  drafts,
+  draftResults,
+  storageError,
+  onSave,
+  onRemove,
+  onClear,
+  onClose,
+}: FlightEditorPanelProps) {
+  const [form, setForm] = useState<EditorForm | null>(null);
+  const [query, setQuery] = useState('');
+
+  const resultsById = useMemo(() => new Map(draftResults.map((result) => [result.draft.id, result])), [draftResults]);
+  const invalidDrafts = draftResults.filter((result) => result.errors.length > 0).length;
+  const hasAddedRows = drafts.some((draft) => draft.action !== 'delete');
+  const hasRemovedRows = drafts.some((draft) => draft.action !== 'add');
+
+  const searchResults = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return flights.filter((flight) => matchesQuery(flight, q)).slice(0, MAX_SEARCH_RESULTS);
+  }, [flights, query]);
+
+  // The draft already changing a flight on the globe (an edit of it, or the addition it came from)
+  const draftFor = (flight: FlightProperties) =>
+    drafts.find((draft) => draft.flightId === flight.id)
+    ?? draftResults.find((result) => result.flight?.id === flight.id)?.draft
+    ?? null;
+
+  const editDraft = (draft: FlightDraft) => {
+    setForm({ draft, action: draft.action, target: null, record: { ...draft.record } });
+  };
+
+  const editFlight = (flight: FlightProperties) => {
+    const draft = draftFor(flight);
+    if (draft) editDraft(draft);
+    else setForm({ draft: null, action: 'edit', target: flight, record: recordFromFlight(flight) });
+    setQuery('');
+  };
+
+  const deleteFlight = (flight: FlightProperties) => {
+    const draft = draftFor(flight);
+    if (!draft) {
+      onSave(createDraft('delete', recordFromFlight(flight), flight));
+    } else if (draft.action === 'add') {
+      onRemove(draft.id); // never published, so dropping the draft deletes it
+    } else {
+      onSave({ ...draft, action: 'delete', record: draft.original ?? draft.record, updatedAt: new Date().toISOString() });
+    }
+    setQuery('');
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const record = { ...form.record };
+    FIELDS.forEach(({ key }) => {
+      record[key] = record[key].trim();
+    });
+    record.origin = record.origin.toUpperCase();
+    record.destination = record.destination.toUpperCase();
+    onSave(form.draft
+      ? { ...form.draft, record, updatedAt: new Date().toISOString() }
+      : createDraft(form.action, record, form.target));
+    setForm(null);
+  };
+
+  // Published flight the form changes, shown for reference
+  const formOriginal = form?.draft?.original ?? (form?.target ? recordFromFlight(form.target) : null);
+
+  const updateField = (key: EditableField, value: string) => {
+    setForm((prev) => prev && { ...prev, record: { ...prev.record, [key]: value } });
+  };
+
+  return (
+    <div className="absolute bottom-4 right-16 z-30 w-80 max-w-[calc(100vw-5rem)] max-h-[calc(100vh-6rem)] overflow-y-auto bg-gray-900/95 backdrop-blur rounded-lg border border-gray-700 shadow-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-gray-400 text-xs uppercase tracking-wide">Edit Flights</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close flight editor">
+          ✕
+        </button>
+      </div>
+
+      {form ? (
+        <div>
+          <div className="text-gray-500 text-xs mb-2">
+            <span className={ACTION_COLORS[form.action]}>{DRAFT_ACTION_LABELS[form.action]}</span>
+            {formOriginal && <span> {describeRecord(formOriginal)}</span>}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {FIELDS.map(({ key, label, placeholder, wide }) => (
+              <label key={key} className={wide ? 'col-span-2' : undefined}>
+                <span className="block text-gray-500 text-xs mb-0.5">{label}</span>
+                <input
+                  value={form.record[key]}
+                  onChange={(e) => updateField(key, e.target.value)}
+                  placeholder={placeholder}
+                  spellCheck={false}
+                  className={inputClassName}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={handleSave}
+              className="flex-1 px-3 py-1.5 rounded text-xs bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+            >
+              Save draft
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1.5 rounded text-xs bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <button
+            onClick={() => setForm({ draft: null, action: 'add', target: null, record: emptyRecord(0) })}
+            className="w-full px-3 py-1.5 rounded text-xs bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+          >
+            + Add a flight
+          </button>
+
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Find a flight to edit or delete…"
+            className={`${inputClassName} mt-2`}
+            aria-label="Find a flight on the globe to edit or delete"
+          />
+          {searchResults.length > 0 && (
+            <div className="mt-1 space-y-0.5">
+              {searchResults.map((flight) => (
+                <div key={flight.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-gray-300 truncate">
+                    {flight.flightNumber && <span className="text-orange-400 mr-1">{flight.flightNumber}</span>}
+                    {flight.origin_code} → {flight.destination_code}
+                    <span className="text-gray-500 ml-1">{formatFlightDate(flight.flightDate)}</span>
+                  </span>
+                  <span className="flex gap-2 shrink-0">
+                    <button onClick={() => editFlight(flight)} className="text-purple-400 hover:text-purple-300">Edit</button>
+                    <button onClick={() => deleteFlight(flight)} className="text-red-400 hover:text-red-300">Delete</button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {query.trim() && searchResults.length === 0 && (
+            <div className="text-gray-600 text-xs mt-1">No matching flights on the globe</div>
+          )}
+        </>
+      )}
+
+      {drafts.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-gray-700">
+          <div className="text-gray-500 text-xs mb-1">Drafts ({drafts.length})</div>
+          <div className="max-h-48 overflow-y-auto space-y-1.5">
+            {drafts.map((draft) => {
+              const result = resultsById.get(draft.id);
+              return (
+                <div key={draft.id} className="text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      <span className={`${ACTION_COLORS[draft.action]} mr-1`}>{DRAFT_ACTION_LABELS[draft.action]}</span>
+                      <span className="text-gray-300">{describeRecord(draft.record)}</span>
+                    </span>
+                    <span className="flex gap-2 shrink-0">
+                      {draft.action !== 'delete' && (
+                        <button onClick={() => editDraft(draft)} className="text-purple-400 hover:text-purple-300">Edit</button>
+                      )}
+                      <button
+                        onClick={() => onRemove(draft.id)}
+                        className="text-gray-500 hover:text-white"
+                        aria-label={`Discard draft: ${describeRecord(draft.record)}`}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </div>
+                  {!result && <div className="text-gray-600">Checking…</div>}
+                  {result?.errors.map((message) => (
+                    <div key={message} className="text-red-400">{message}</div>
+                  ))}
+                  {result?.warnings.map((message) => (
+                    <div key={message} className="text-yellow-500">{message}</div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+
+          {invalidDrafts > 0 && (
+            <div className="text-gray-500 text-xs mt-2">
+              {invalidDrafts} draft{invalidDrafts > 1 ? 's have' : ' has'} errors and {invalidDrafts > 1 ? "aren't" : "isn't"} on the globe
+            </div>
+          )}
+          <div className="flex gap-2 mt-2">
+            {hasAddedRows && (
+              <button
+                onClick={() => downloadFile(draftsToAddedRows(drafts), 'text/csv', 'flights-add.csv')}
+                className="flex-1 px-3 py-1.5 rounded text-xs bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+                title="Added and edited flights, as flights.csv rows"
+              >
+                Rows to add
+              </button>
+            )}
+            {hasRemovedRows && (
+              <button
+                onClick={() => downloadFile(draftsToRemovedRows(drafts), 'text/csv', 'flights-remove.csv')}
+                className="flex-1 px-3 py-1.5 rounded text-xs bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+                title="Edited and deleted flights as published, as flights.csv rows"
+              >
+                Rows to remove
+              </button>
+            )}
+            <button
+              onClick={onClear}
+              className="px-3 py-1.5 rounded text-xs bg-gray-800 text-gray-400 hover:bg-gray-700 transition-colors"
+            >
+              Discard all
+            </button>
+          </div>
+        </div>
+      )}
+
+      {storageError && (
+        <div className="text-yellow-500 text-xs mt-2">Drafts can't be saved in this browser and will be lost on reload</div>
+      )}
+    </div>
+  );
+}
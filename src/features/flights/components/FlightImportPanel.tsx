@@ -0,0 +1,196 @@
+import { useState, useMemo, useEffect, type ChangeEvent } from 'react';
+import { useAirportTable } from '../hooks/useFlightData';
+import { importFlights, IMPORT_FORMAT_LABELS } from '../importers';
+import { formatFlightDate } from '../utils/dates';
+import { recordFromFlight, recordToCSVRow } from '../utils/drafts';
+import type { FlightProperties, ImportResult } from '../types';
+
+interface FlightImportPanelProps {
+  onPreviewChange: (flights: FlightProperties[]) => void;
+  onClose: () => void;
+}
+
+type ImportSource = 'boarding-pass' | 'file';
+
+const VISIBLE_FLIGHTS = 8;
+
+// flights.csv row for an imported flight, ready to paste into the sheet
+function toCSVRow(flight: FlightProperties): string {
+  return recordToCSVRow({ ...recordFromFlight(flight), date: formatFlightDate(flight.flightDate) });
+}
+
+export function FlightImportPanel({ onPreviewChange, onClose }: FlightImportPanelProps) {
+  const [source, setSource] = useState<ImportSource>('boarding-pass');
+  const [passText, setPassText] = useState('');
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { data: airports, loading, error } = useAirportTable();
+
+  const { result, importError } = useMemo((): { result: ImportResult | null; importError: string | null } => {
+    if (!airports) return { result: null, importError: null };
+    try {
+      if (source === 'boarding-pass') {
+        return { result: passText.trim() ? importFlights(passText, airports, 'bcbp') : null, importError: null };
+      }
+      // File format is detected from its contents
+      return { result: file ? importFlights(file.text, airports) : null, importError: null };
+    } catch (err) {
+      return { result: null, importError: (err as Error).message };
+    }
+  }, [airports, source, passText, file]);
+
+  // Preview imported flights on the globe; clear the preview when the panel closes
+  useEffect(() => {
+    onPreviewChange(result?.flights ?? []);
+  }, [result, onPreviewChange]);
+  useEffect(() => () => onPreviewChange([]), [onPreviewChange]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, text: await selected.text() });
+  };
+
+  const handleCopy = async () => {
+    if (!result || result.flights.length === 0) return;
+    try {
+      await navigator.clipboard.writeText(result.flights.map(toCSVRow).join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable - rows are still visible to copy by hand
+    }
+  };
+
+  const recognizedEvents = result?.events?.filter((event) => event.recognized).length ?? 0;
+
+  // Skipped calendar events are listed with their reason, so leave them out of the messages
+  const messages = useMemo(() => {
+    if (!result) return { errors: [], warnings: [] };
+    const skippedRows = new Set(result.events?.filter((event) => !event.recognized).map((event) => `Row ${event.row}:`));
+    const isListed = (message: string) => skippedRows.has(message.slice(0, message.indexOf(':') + 1));
+    return {
+      errors: result.errors.filter((message) => !isListed(message)),
+      warnings: result.warnings.filter((message) => !isListed(message)),
+    };
+  }, [result]);
+
+  return (
+    <div className="absolute bottom-4 right-16 z-30 w-80 max-w-[calc(100vw-5rem)] bg-gray-900/95 backdrop-blur rounded-lg border border-gray-700 shadow-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-gray-400 text-xs uppercase tracking-wide">Import Flights</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close flight import">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex gap-1 mb-2">
+        {([['boarding-pass', 'Boarding pass'], ['file', 'File']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setSource(value)}
+            className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+              source === value ? 'bg-purple-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'boarding-pass' ? (
+        <>
+          <textarea
+            value={passText}
+            onChange={(e) => setPassText(e.target.value)}
+            placeholder="M1DOE/JANE            EABC123 SFOEWRUA 0123 045Y012A0001 100"
+            rows={3}
+            spellCheck={false}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 font-mono placeholder-gray-600 focus:outline-none focus:border-purple-500 resize-none"
+            aria-label="Boarding pass barcode data, one pass per line"
+          />
+          <div className="text-gray-600 text-xs mt-1">Scanned barcode text (IATA BCBP), one pass per line</div>
+        </>
+      ) : (
+        <>
+          <label className="block w-full px-3 py-2 rounded border border-dashed border-gray-600 text-center text-xs text-gray-400 hover:border-purple-500 hover:text-gray-200 cursor-pointer transition-colors">
+            {file ? file.name : 'Choose a file…'}
+            <input type="file" accept=".ics,.csv,.json,.txt" onChange={handleFileChange} className="sr-only" />
+          </label>
+          <div className="text-gray-600 text-xs mt-1">
+            Calendar (.ics), flights.csv, OpenFlights, myFlightradar24 or Flighty CSV, or JSON
+          </div>
+        </>
+      )}
+
+      {loading && <div className="text-gray-500 text-xs mt-2">Loading airports...</div>}
+      {error && <div className="text-red-400 text-xs mt-2">Couldn't load the airport table</div>}
+      {importError && <div className="text-red-400 text-xs mt-2">{importError}</div>}
+
+      {result && source === 'file' && (
+        <div className="text-gray-500 text-xs mt-2">
+          {IMPORT_FORMAT_LABELS[result.format]}
+          {result.events && (
+            <>
+              <span className="text-gray-600 mx-1">•</span>
+              <span className="text-green-400">{recognizedEvents}</span> of {result.events.length} events recognized
+            </>
+          )}
+        </div>
+      )}
+
+      {result && result.flights.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-gray-700">
+          <div className="space-y-1 mb-2">
+            {result.flights.slice(0, VISIBLE_FLIGHTS).map((flight) => (
+              <div key={flight.id} className="flex justify-between text-xs">
+                <span className="text-gray-300">
+                  {flight.flightNumber && <span className="text-orange-400 mr-1">{flight.flightNumber}</span>}
+                  {flight.origin_code} → {flight.destination_code}
+                </span>
+                <span className="text-gray-500">{formatFlightDate(flight.flightDate)}</span>
+              </div>
+            ))}
+            {result.flights.length > VISIBLE_FLIGHTS && (
+              <div className="text-gray-600 text-xs">+{result.flights.length - VISIBLE_FLIGHTS} more</div>
+            )}
+          </div>
+          <button
+            onClick={handleCopy}
+            className={`w-full px-3 py-1.5 rounded text-xs transition-colors ${
+              copied ? 'bg-green-600/30 text-green-400' : 'bg-purple-600 hover:bg-purple-500 text-white'
+            }`}
+          >
+            {copied ? 'Copied!' : `Copy ${result.flights.length} CSV row${result.flights.length > 1 ? 's' : ''}`}
+          </button>
+        </div>
+      )}
+
+      {/* Calendar events: recognized flights and skipped events with the reason */}
+      {result?.events && result.events.length > 0 && (
+        <div className="mt-2 max-h-32 overflow-y-auto space-y-0.5">
+          {result.events.map((event) => (
+            <div key={event.row} className="text-xs flex gap-1">
+              <span className={event.recognized ? 'text-green-400' : 'text-gray-600'}>{event.recognized ? '✓' : '✗'}</span>
+              <span className={event.recognized ? 'text-gray-300' : 'text-gray-500'}>
+                {event.summary || '(untitled)'}
+                {!event.recognized && <span className="text-gray-600 italic"> — {event.reason}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(messages.errors.length > 0 || messages.warnings.length > 0) && (
+        <div className="mt-2 max-h-24 overflow-y-auto space-y-0.5">
+          {messages.errors.map((message) => (
+            <div key={message} className="text-red-400 text-xs">{message}</div>
+          ))}
+          {messages.warnings.map((message) => (
+            <div key={message} className="text-yellow-500 text-xs">{message}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
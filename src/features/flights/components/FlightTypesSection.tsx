@@ -0,0 +1,113 @@
+import type { ReactNode } from 'react';
+import { CollapsibleSection, StatItem } from './shared';
+import { FLIGHT_TYPES, FLIGHT_TYPE_LABELS, HAUL_LENGTHS, HAUL_LABELS, formatHaulRange } from '../utils/flightTypes';
+import type { FlightStats, FlightType, HaulLength, HaulThresholds } from '../types';
+
+interface FlightTypesSectionProps {
+  stats: FlightStats;
+  flightType: FlightType | null;
+  onFlightTypeSelect: (type: FlightType | null) => void;
+  haul: HaulLength | null;
+  onHaulSelect: (haul: HaulLength | null) => void;
+  haulThresholds: HaulThresholds;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+const FLIGHT_TYPE_ICONS: Record<FlightType, string> = {
+  domestic: '🏠',
+  international: '🌐',
+  intercontinental: '🌏',
+};
+
+const HAUL_ICONS: Record<HaulLength, string> = {
+  short: '🛩️',
+  medium: '✈️',
+  long: '🛫',
+};
+
+function CategoryButton({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`text-left rounded px-1.5 py-1 -mx-1.5 transition-colors ${selected ? 'bg-gray-700' : 'hover:bg-gray-800'}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Counts by flight type and haul length; click one to show only those flights, again to clear it
+export function FlightTypesSection({
+  stats,
+  flightType,
+  onFlightTypeSelect,
+  haul,
+  onHaulSelect,
+  haulThresholds,
+  isOpen,
+  onToggle,
+}: FlightTypesSectionProps) {
+  return (
+    <CollapsibleSection
+      title="Flight Types"
+      icon="🌐"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {FLIGHT_TYPES.map((type) => (
+          <CategoryButton
+            key={type}
+            selected={flightType === type}
+            onClick={() => onFlightTypeSelect(flightType === type ? null : type)}
+          >
+            <StatItem
+              icon={FLIGHT_TYPE_ICONS[type]}
+              label={FLIGHT_TYPE_LABELS[type]}
+              value={stats.flightTypeCounts[type].toString()}
+            />
+          </CategoryButton>
+        ))}
+        {stats.mostVisitedCountry && (
+          <StatItem
+            icon="🏆"
+            label="Top Country"
+            value={stats.mostVisitedCountry.country}
+            className="py-1"
+            subValue={
+              <>
+                <span className="text-yellow-400">{stats.mostVisitedCountry.count}</span>✈{' '}
+                <span className="text-green-400">{stats.mostVisitedCountry.arrivals}</span>↓{' '}
+                <span className="text-blue-400">{stats.mostVisitedCountry.departures}</span>↑
+              </>
+            }
+          />
+        )}
+        {HAUL_LENGTHS.map((length) => (
+          <CategoryButton
+            key={length}
+            selected={haul === length}
+            onClick={() => onHaulSelect(haul === length ? null : length)}
+          >
+            <StatItem
+              icon={HAUL_ICONS[length]}
+              label={HAUL_LABELS[length]}
+              value={stats.haulCounts[length].toString()}
+              subValue={formatHaulRange(length, haulThresholds)}
+            />
+          </CategoryButton>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+}
@@ -1,16 +1,50 @@
-import { useRef, useCallback, useState, useMemo, useEffect } from 'react';
+import { useRef, useCallback, useState, useMemo, useEffect, type DragEvent } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import Globe, { type GlobeMethods } from 'react-globe.gl';
 import { useGlobeData } from '../hooks/useFlightData';
+import { getRouteKey } from '../utils/globeData';
 import { useStatsPanelState } from '../hooks/useStatsPanelState';
 import { useReducedMotion } from '../hooks/useReducedMotion';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { useFlightDrafts } from '../hooks/useFlightDrafts';
+import { usePrivateFlightData } from '../hooks/usePrivateFlightData';
 import { StatsPanel } from './StatsPanel';
 import { FilterPanel } from './FilterPanel';
 import { ColorModeSelector } from './ColorModeSelector';
 import { KeyboardHelp } from './KeyboardHelp';
 import { EmptyState } from './EmptyState';
-import type { GlobeArc, GlobePoint, GlobeStaticArc, ColorMode } from '../types';
+import { FlightImportPanel } from './FlightImportPanel';
+import { FlightEditorPanel } from './FlightEditorPanel';
+import { PrivateDataBanner } from './PrivateDataBanner';
+import { ExportMenu } from './ExportMenu';
+import { DataQualityNotice } from './DataQualityNotice';
+import { ConnectionStatus } from './ConnectionStatus';
+import { ComparisonBar } from './ComparisonBar';
+import { compareFlightDates, formatFlightDate } from '../utils/dates';
+import { formatTripPath } from '../utils/trips';
+import { formatAirportStatus } from '../utils/airports';
+import { ALLIANCE_COLORS, ALLIANCE_LABELS, parseAllianceFilter } from '../utils/alliances';
+import { describeComparisonFilters, parseComparisonFilters, writeComparisonFilters } from '../utils/comparison';
+import { formatDateRange, parseDateRange, writeDateRange } from '../utils/dateRange';
+import { FLIGHT_TYPE_LABELS, HAUL_LABELS, parseFlightType, parseHaulLength, parseHaulThresholds, writeHaulThresholds } from '../utils/flightTypes';
+import { describeAirlineFilter, parseAirlineFilter, toggleAirline, writeAirlineFilter } from '../utils/airlineFilter';
+import { PLACE_KINDS, describePlaces, getPlaceName, parsePlaceFilter, writePlace, writePlaceWithin } from '../utils/places';
+import { GLOBE_IMAGE, BUMP_IMAGE } from '../assets';
+import type {
+  GlobeArc,
+  GlobePoint,
+  GlobeStaticArc,
+  ColorMode,
+  FlightProperties,
+  AllianceFilter,
+  ComparisonFilters,
+  AirlineFilter,
+  DateRange,
+  FlightType,
+  HaulLength,
+  HaulThresholds,
+  PlaceKind,
+} from '../types';
 
 // Custom hook for persisted state
 function usePersistedState<T>(key: string, defaultValue: T): [T, (value: T | ((prev: T) => T)) => void] {
@@ -38,12 +72,34 @@ function usePersistedState<T>(key: string, defaultValue: T): [T, (value: T | ((p
   return [state, setPersistedState];
 }
 
-// Earth textures
-const GLOBE_IMAGE = '//unpkg.com/three-globe/example/img/earth-night.jpg';
-const BUMP_IMAGE = '//unpkg.com/three-globe/example/img/earth-topology.png';
+// Escape data values (codes, names, CSV free text) before putting them in tooltip HTML
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Short flight label for tooltips: "7/19/2009 LX 41"
+function formatFlightLabel(flight: FlightProperties): string {
+  const date = escapeHtml(formatFlightDate(flight.flightDate));
+  return flight.flightNumber
+    ? `${date} <span class="text-orange-300">${escapeHtml(flight.flightNumber)}</span>`
+    : date;
+}
 
 // Color mode values for keyboard shortcuts
-const COLOR_MODES: ColorMode[] = ['default', 'year', 'frequency', 'airline'];
+const COLOR_MODES: ColorMode[] = ['default', 'year', 'frequency', 'airline', 'alliance'];
+
+// Side B when compare mode is switched on: all flights, to be narrowed in the comparison bar
+const EMPTY_COMPARISON: ComparisonFilters = {
+  selectedYear: null,
+  airlines: null,
+  selectedAlliance: null,
+  selectedTraveler: null,
+};
 
 export function FlightsMap() {
   const globeRef = useRef<GlobeMethods | undefined>(undefined);
@@ -52,18 +108,49 @@ export function FlightsMap() {
   
   // URL state for filters
   const selectedYear = searchParams.get('year') ? Number(searchParams.get('year')) : null;
-  const selectedAirport = searchParams.get('airport') || null;
-  const selectedAirline = searchParams.get('airline') || null;
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const dateRange = useMemo(() => parseDateRange(fromParam, toParam), [fromParam, toParam]); // from/to, e.g. "2019-09"
+  const countryParam = searchParams.get('country');
+  const regionParam = searchParams.get('region');
+  const continentParam = searchParams.get('continent');
+  const withinParam = searchParams.get('within');
+  const places = useMemo( // country/region/continent, e.g. "FR", "US-CA", "EU"
+    () => parsePlaceFilter(countryParam, regionParam, continentParam, withinParam),
+    [countryParam, regionParam, continentParam, withinParam]
+  );
+  const flightType = parseFlightType(searchParams.get('type')); // domestic/international/intercontinental
+  const haul = parseHaulLength(searchParams.get('haul')); // short/medium/long
+  const haulKmParam = searchParams.get('haul_km');
+  const haulThresholds = useMemo(() => parseHaulThresholds(haulKmParam), [haulKmParam]); // e.g. "1500-4000"
+  const airportParam = searchParams.get('airport') || null; // IATA or ICAO, resolved by useGlobeData
+  const airlineFilter = useMemo(() => parseAirlineFilter(searchParams), [searchParams]); // airline/exclude_airline, repeatable
+  const selectedAlliance = parseAllianceFilter(searchParams.get('alliance'));
   const selectedRoute = searchParams.get('route') || null; // Format: "JFK-LAX"
+  const selectedTripId = searchParams.get('trip') || null;
+  const selectedTraveler = searchParams.get('traveler') || null;
+  const showShared = searchParams.get('shared') === '1'; // highlight flights travelers flew together
+  const compareWith = useMemo(() => parseComparisonFilters(searchParams), [searchParams]); // side B in compare mode
+  const comparisonSideA = useMemo<ComparisonFilters>(
+    () => ({ selectedYear, airlines: airlineFilter, selectedAlliance, selectedTraveler }),
+    [selectedYear, airlineFilter, selectedAlliance, selectedTraveler]
+  );
   
   const [colorMode, setColorMode] = usePersistedState<ColorMode>('flights-color-mode', 'default');
   const [animationEnabled, setAnimationEnabled] = usePersistedState('flights-animation-enabled', true);
   const [showStats, setShowStats] = useStatsPanelState(false);
   const [hoveredStaticArc, setHoveredStaticArc] = useState<GlobeStaticArc | null>(null);
+  const [dataNoticeDismissed, setDataNoticeDismissed] = useState(false);
   const [hoveredPoint, setHoveredPoint] = useState<GlobePoint | null>(null);
   const [autoRotate, setAutoRotate] = useState(false); // Start paused
   const [mobileInfoArc, setMobileInfoArc] = useState<GlobeStaticArc | null>(null); // For mobile tap-to-show
   const [copiedUrl, setCopiedUrl] = useState(false);
+  const [showImportPanel, setShowImportPanel] = useState(false);
+  const [previewFlights, setPreviewFlights] = useState<FlightProperties[]>([]); // Imported flights being previewed
+  const [showEditorPanel, setShowEditorPanel] = useState(false);
+  const { drafts, saveDraft, removeDraft, clearDrafts, error: draftsError } = useFlightDrafts();
+  const privateData = usePrivateFlightData();
+  const [dragActive, setDragActive] = useState(false); // A file is being dragged over the globe
   const hasInteracted = useRef(false);
 
   // URL state setters
@@ -81,6 +168,64 @@ export function FlightsMap() {
     });
   }, [setSearchParams]);
 
+  const setDateRange = useCallback((range: DateRange | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writeDateRange(newParams, range);
+      // Clear airport selection when changing the range, like the year
+      newParams.delete('airport');
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setPlace = useCallback((kind: PlaceKind, code: string | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writePlace(newParams, kind, code);
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setPlaceWithin = useCallback((within: boolean) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writePlaceWithin(newParams, within);
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setFlightType = useCallback((type: FlightType | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      if (type === null) {
+        newParams.delete('type');
+      } else {
+        newParams.set('type', type);
+      }
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setHaul = useCallback((haulLength: HaulLength | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      if (haulLength === null) {
+        newParams.delete('haul');
+      } else {
+        newParams.set('haul', haulLength);
+      }
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setHaulThresholds = useCallback((thresholds: HaulThresholds) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writeHaulThresholds(newParams, thresholds);
+      return newParams;
+    });
+  }, [setSearchParams]);
+
   const setSelectedAirport = useCallback((airport: string | null) => {
     setSearchParams(prev => {
       const newParams = new URLSearchParams(prev);
@@ -89,24 +234,107 @@ export function FlightsMap() {
       } else {
         newParams.set('airport', airport);
       }
-      // Clear route selection when selecting an airport
+      // Clear route/trip selection when selecting an airport
       newParams.delete('route');
+      newParams.delete('trip');
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setAirlineFilter = useCallback((filter: AirlineFilter | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writeAirlineFilter(newParams, filter);
       return newParams;
     });
   }, [setSearchParams]);
 
+  // Show just one airline (or all with null), as the stats panel's airline list does
   const setSelectedAirline = useCallback((airline: string | null) => {
+    setAirlineFilter(airline === null ? null : toggleAirline(null, airline, 'include'));
+  }, [setAirlineFilter]);
+
+  const setSelectedAlliance = useCallback((alliance: AllianceFilter | null) => {
     setSearchParams(prev => {
       const newParams = new URLSearchParams(prev);
-      if (airline === null) {
-        newParams.delete('airline');
+      if (alliance === null) {
+        newParams.delete('alliance');
       } else {
-        newParams.set('airline', airline);
+        newParams.set('alliance', alliance);
       }
       return newParams;
     });
   }, [setSearchParams]);
 
+  const setSelectedTraveler = useCallback((traveler: string | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      if (traveler === null) {
+        newParams.delete('traveler');
+      } else {
+        newParams.set('traveler', traveler);
+      }
+      // The selected trip may not be this traveler's
+      newParams.delete('trip');
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setShowShared = useCallback((shared: boolean) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      if (shared) {
+        newParams.set('shared', '1');
+      } else {
+        newParams.delete('shared');
+      }
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  // Enter or leave compare mode, or change side B
+  const setCompareWith = useCallback((filters: ComparisonFilters | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      writeComparisonFilters(newParams, filters);
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  // Swap sides: the regular filters become side B and side B becomes the regular filters
+  const swapComparison = useCallback(() => {
+    if (!compareWith) return;
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      const sideA = { ...comparisonSideA };
+      ([
+        ['year', compareWith.selectedYear],
+        ['alliance', compareWith.selectedAlliance],
+        ['traveler', compareWith.selectedTraveler],
+      ] as const).forEach(([key, value]) => {
+        if (value === null) {
+          newParams.delete(key);
+        } else {
+          newParams.set(key, String(value));
+        }
+      });
+      writeAirlineFilter(newParams, compareWith.airlines);
+      writeComparisonFilters(newParams, sideA);
+      // The selected trip may not be in the new side A
+      newParams.delete('trip');
+      return newParams;
+    });
+  }, [compareWith, comparisonSideA, setSearchParams]);
+
+  // Clear the filters set from the filter panel
+  const clearPanelFilters = useCallback(() => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      ['year', 'from', 'to', ...PLACE_KINDS, 'within', 'type', 'haul', 'airline', 'exclude_airline', 'airport', 'traveler', 'shared', 'trip'].forEach(key => newParams.delete(key));
+      return newParams;
+    });
+  }, [setSearchParams]);
+
   const setSelectedRoute = useCallback((route: string | null) => {
     setSearchParams(prev => {
       const newParams = new URLSearchParams(prev);
@@ -115,8 +343,24 @@ export function FlightsMap() {
       } else {
         newParams.set('route', route);
       }
-      // Clear airport selection when selecting a route
+      // Clear airport/trip selection when selecting a route
       newParams.delete('airport');
+      newParams.delete('trip');
+      return newParams;
+    });
+  }, [setSearchParams]);
+
+  const setSelectedTrip = useCallback((tripId: string | null) => {
+    setSearchParams(prev => {
+      const newParams = new URLSearchParams(prev);
+      if (tripId === null) {
+        newParams.delete('trip');
+      } else {
+        newParams.set('trip', tripId);
+      }
+      // Clear airport/route selection when selecting a trip
+      newParams.delete('airport');
+      newParams.delete('route');
       return newParams;
     });
   }, [setSearchParams]);
@@ -138,7 +382,7 @@ export function FlightsMap() {
   }, []);
 
   // Check if any URL filters are active (don't auto-rotate if user came via direct link)
-  const hasUrlFilters = selectedYear !== null || selectedAirport !== null || selectedAirline !== null || selectedRoute !== null;
+  const hasUrlFilters = selectedYear !== null || dateRange !== null || places !== null || flightType !== null || haul !== null || airportParam !== null || airlineFilter !== null || selectedAlliance !== null || selectedRoute !== null || selectedTripId !== null || selectedTraveler !== null || showShared || compareWith !== null;
 
   // Start auto-rotation after a delay (gives user time to explore first)
   // Skip if user prefers reduced motion, has interacted, or came via filtered URL
@@ -176,11 +420,35 @@ export function FlightsMap() {
     }
   }, []);
 
-  const { arcsData, staticArcsData, pointsData, flightStats, loading, error } = useGlobeData({
+  const {
+    arcsData,
+    staticArcsData,
+    pointsData,
+    flightStats,
+    comparison,
+    trips,
+    selectedAirport,
+    loading,
+    computing,
+    dataIssues,
+    draftResults,
+    error,
+  } = useGlobeData({
     selectedYear,
+    dateRange,
+    places,
+    flightType,
+    haul,
+    haulThresholds,
     colorMode,
-    selectedAirport,
-    selectedAirline,
+    selectedAirport: airportParam,
+    airlines: airlineFilter,
+    selectedAlliance,
+    selectedTraveler,
+    showShared,
+    compareWith,
+    drafts,
+    privateData: privateData.data,
   });
 
   // Create a set of valid airport codes for clickable validation
@@ -188,6 +456,35 @@ export function FlightsMap() {
     return new Set(pointsData.map(p => p.airport.code));
   }, [pointsData]);
 
+  const selectedTrip = useMemo(() => {
+    if (!selectedTripId) return null;
+    return trips.find(t => t.id === selectedTripId) ?? null;
+  }, [trips, selectedTripId]);
+
+  const airlineLabel = airlineFilter ? describeAirlineFilter(airlineFilter) : null;
+
+  // Names of the selected places, e.g. "to or from France" for the empty state and chips
+  const placeAirports = useMemo(() => pointsData.map(p => p.airport), [pointsData]);
+  const placeLabel = places ? describePlaces(places, placeAirports) : null;
+
+  // Flights currently on the globe, for flight number / notes search and export
+  const searchableFlights = useMemo(() => arcsData.map(arc => arc.flight), [arcsData]);
+
+  // Export file name reflecting the active filters, e.g. "flights-2019-LAX"
+  const exportFileName = useMemo(() => {
+    const parts = ['flights', selectedTraveler, selectedYear, dateRange?.from, dateRange?.to, places?.continent, places?.country, places?.region, flightType, haul && `${haul}-haul`,
+      ...(airlineFilter?.include ?? []), ...(airlineFilter?.exclude.map(airline => `not-${airline}`) ?? []), selectedAlliance, selectedAirport]
+      .filter((part) => part !== null && part !== undefined)
+      .map((part) => String(part).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''));
+    return parts.join('-');
+  }, [selectedTraveler, selectedYear, dateRange, places, flightType, haul, airlineFilter, selectedAlliance, selectedAirport]);
+
+  // Side labels for the stats panel comparison
+  const comparisonLabels = useMemo(() => ({
+    a: describeComparisonFilters(comparisonSideA),
+    b: compareWith ? describeComparisonFilters(compareWith) : '',
+  }), [comparisonSideA, compareWith]);
+
   // Reset view callback for keyboard shortcuts
   const resetView = useCallback(() => {
     if (globeRef.current) {
@@ -214,6 +511,29 @@ export function FlightsMap() {
     }
   }, []);
 
+  // Dropping a flight log onto the globe shows it instead of the published flights
+  const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setDragActive(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: DragEvent<HTMLDivElement>) => {
+    // Ignore moves between child elements
+    if (e.relatedTarget instanceof Node && e.currentTarget.contains(e.relatedTarget)) return;
+    setDragActive(false);
+  }, []);
+
+  const { loadFile } = privateData;
+  const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setDragActive(false);
+    const file = e.dataTransfer.files[0];
+    if (file) loadFile(file);
+  }, [loadFile]);
+
   // Keyboard shortcuts
   const { showHelp, setShowHelp } = useKeyboardShortcuts({
     onToggleStats: () => setShowStats(prev => !prev),
@@ -222,9 +542,11 @@ export function FlightsMap() {
       // Could be enhanced with a ref-based approach
     },
     onResetView: resetView,
+    onToggleCompare: () => setCompareWith(compareWith ? null : EMPTY_COMPARISON),
     onClearSelection: () => {
       setSelectedAirport(null);
       setSelectedRoute(null);
+      setSelectedTrip(null);
       setShowStats(false);
     },
     onColorModeChange: (modeIndex) => {
@@ -234,12 +556,23 @@ export function FlightsMap() {
     },
   });
 
-  // Parse selected route into origin/destination codes
-  const selectedRouteAirports = useMemo(() => {
-    if (!selectedRoute) return null;
-    const [origin, destination] = selectedRoute.split('-');
-    return { origin, destination };
-  }, [selectedRoute]);
+  // Airports to highlight: the selected route's endpoints or every stop on the selected trip
+  const highlightedAirports = useMemo(() => {
+    if (selectedRoute) return new Set(selectedRoute.split('-'));
+    if (selectedTrip) return new Set(selectedTrip.airports);
+    return null;
+  }, [selectedRoute, selectedTrip]);
+
+  // Leg order for the selected trip's routes (first time each route is flown on the trip)
+  const tripLegOrder = useMemo(() => {
+    if (!selectedTrip) return null;
+    const order = new Map<string, number>();
+    selectedTrip.legs.forEach((leg, index) => {
+      const routeKey = getRouteKey(leg.origin_code, leg.destination_code);
+      if (!order.has(routeKey)) order.set(routeKey, index);
+    });
+    return order;
+  }, [selectedTrip]);
 
   // Combine static arcs and animated arcs (keep stable - don't depend on selection state)
   const combinedArcsData = useMemo(() => {
@@ -260,8 +593,23 @@ export function FlightsMap() {
       isStatic: true,
     }));
 
-    return [...animatedArcs, ...staticArcs];
-  }, [staticArcsData, arcsData, prefersReducedMotion, animationEnabled]);
+    // Import preview flights, drawn as bright dashed arcs on top
+    const previewArcs = previewFlights.map(flight => ({
+      startLat: flight.origin_lat,
+      startLng: flight.origin_lon,
+      endLat: flight.destination_lat,
+      endLng: flight.destination_lon,
+      color: 'rgba(34, 211, 238, 0.95)',
+      stroke: 1.2,
+      dashLength: 0.4,
+      dashGap: 0.15,
+      dashInitialGap: 0,
+      animateTime: shouldAnimate ? 1500 : 0,
+      isStatic: false,
+    }));
+
+    return [...animatedArcs, ...staticArcs, ...previewArcs];
+  }, [staticArcsData, arcsData, previewFlights, prefersReducedMotion, animationEnabled]);
 
   // Memoize arc styling based on selection - pre-compute colors and strokes
   const arcStyles = useMemo(() => {
@@ -271,7 +619,16 @@ export function FlightsMap() {
       const isStatic = (arc as GlobeArc & { isStatic?: boolean }).isStatic;
       if (!isStatic || !routeKey) return;
       
-      if (!selectedRoute) {
+      if (tripLegOrder && selectedTrip) {
+        const legIndex = tripLegOrder.get(routeKey);
+        if (legIndex === undefined) {
+          styles.set(routeKey, { color: 'rgba(100, 100, 120, 0.3)', stroke: 0.3 });
+        } else {
+          // Gold → red along the trip so the leg order reads on the globe
+          const t = selectedTrip.legs.length > 1 ? legIndex / (selectedTrip.legs.length - 1) : 0;
+          styles.set(routeKey, { color: `hsla(${Math.round(45 - 45 * t)}, 100%, 60%, 0.95)`, stroke: 1.5 });
+        }
+      } else if (!selectedRoute) {
         styles.set(routeKey, { color: arc.color as string, stroke: arc.stroke });
       } else if (routeKey === selectedRoute) {
         styles.set(routeKey, { color: 'rgba(255, 200, 50, 0.95)', stroke: 1.5 });
@@ -280,10 +637,10 @@ export function FlightsMap() {
       }
     });
     return styles;
-  }, [combinedArcsData, selectedRoute]);
+  }, [combinedArcsData, selectedRoute, selectedTrip, tripLegOrder]);
 
   // Calculate bounds for zoom-to-fit when year changes
-  const zoomToBounds = useCallback((points: typeof pointsData) => {
+  const zoomToBounds = useCallback((points: { lat: number; lng: number }[]) => {
     if (!globeRef.current || points.length === 0) return;
 
     let minLat = 90, maxLat = -90, minLng = 180, maxLng = -180;
@@ -312,14 +669,38 @@ export function FlightsMap() {
     setSelectedYear(year);
   }, [stopAutoRotate, setSelectedYear]);
 
-  // Effect to zoom to bounds when year filter changes
+  const handleDateRangeChange = useCallback((range: DateRange | null) => {
+    stopAutoRotate();
+    setDateRange(range);
+  }, [stopAutoRotate, setDateRange]);
+
+  // Effect to zoom to bounds when the year or date range filter changes. The worker
+  // answers asynchronously, so the zoom waits until the new filters' points are in
+  // (until then pointsData is still the previous result).
   const prevYearRef = useRef<number | null>(null);
+  const prevRangeRef = useRef<DateRange | null>(null);
+  const pendingZoomRef = useRef(false);
   useEffect(() => {
-    if (prevYearRef.current !== selectedYear && selectedYear !== null && pointsData.length > 0) {
+    const yearChanged = prevYearRef.current !== selectedYear && selectedYear !== null;
+    const rangeChanged = prevRangeRef.current !== dateRange && dateRange !== null;
+    if (yearChanged || rangeChanged) pendingZoomRef.current = true;
+    prevYearRef.current = selectedYear;
+    prevRangeRef.current = dateRange;
+    if (!pendingZoomRef.current || computing) return;
+    pendingZoomRef.current = false;
+    if (pointsData.length > 0) {
       setTimeout(() => zoomToBounds(pointsData), 100);
     }
-    prevYearRef.current = selectedYear;
-  }, [selectedYear, pointsData, zoomToBounds]);
+  }, [selectedYear, dateRange, pointsData, computing, zoomToBounds]);
+
+  // Fly to an import preview as soon as it parses
+  useEffect(() => {
+    if (previewFlights.length === 0) return;
+    zoomToBounds(previewFlights.flatMap(flight => [
+      { lat: flight.origin_lat, lng: flight.origin_lon },
+      { lat: flight.destination_lat, lng: flight.destination_lon },
+    ]));
+  }, [previewFlights, zoomToBounds]);
 
   // Static arc hover handler
   const handleStaticArcHover = useCallback((arc: GlobeStaticArc | null) => {
@@ -420,6 +801,19 @@ export function FlightsMap() {
     setShowStats(true);
   }, [stopAutoRotate, pointsData, setSelectedAirport, setShowStats]);
 
+  // Handle selecting a trip in the stats panel - zoom to fit all of its stops
+  const handleTripSelect = useCallback((tripId: string | null) => {
+    stopAutoRotate();
+    setSelectedTrip(tripId);
+    const trip = tripId ? trips.find(t => t.id === tripId) : null;
+    if (trip) {
+      zoomToBounds(trip.legs.flatMap(leg => [
+        { lat: leg.origin_lat, lng: leg.origin_lon },
+        { lat: leg.destination_lat, lng: leg.destination_lon },
+      ]));
+    }
+  }, [stopAutoRotate, setSelectedTrip, trips, zoomToBounds]);
+
   // Handle clicking on a route in the stats panel
   const handleRouteCodeClick = useCallback((origin: string, destination: string) => {
     stopAutoRotate();
@@ -439,9 +833,17 @@ export function FlightsMap() {
     }
   }, [stopAutoRotate, pointsData]);
 
-  // Handle clicking on a country in the stats panel
-  const handleCountryClick = useCallback((countryCode: string) => {
+  // Handle picking a flight from search - select and zoom to its route
+  const handleFlightSelect = useCallback((flight: FlightProperties) => {
+    setSelectedRoute(getRouteKey(flight.origin_code, flight.destination_code));
+    handleRouteCodeClick(flight.origin_code, flight.destination_code);
+  }, [setSelectedRoute, handleRouteCodeClick]);
+
+  // Toggle a country filter from the stats panel, zooming to it when set
+  const handleCountrySelect = useCallback((countryCode: string | null) => {
     stopAutoRotate();
+    setPlace('country', countryCode);
+    if (countryCode === null) return;
     const countryAirports = pointsData.filter(p => p.airport.country === countryCode);
 
     if (countryAirports.length > 0 && globeRef.current) {
@@ -471,11 +873,13 @@ export function FlightsMap() {
         globeRef.current.pointOfView({ lat: centerLat, lng: centerLng, altitude }, 1000);
       }
     }
-  }, [stopAutoRotate, pointsData]);
+  }, [stopAutoRotate, setPlace, pointsData]);
 
-  // Handle clicking on a region in the stats panel
-  const handleRegionClick = useCallback((regionCode: string) => {
+  // Toggle a region filter from the stats panel, zooming to it when set
+  const handleRegionSelect = useCallback((regionCode: string | null) => {
     stopAutoRotate();
+    setPlace('region', regionCode);
+    if (regionCode === null) return;
     const regionAirports = pointsData.filter(p => p.airport.region === regionCode);
 
     if (regionAirports.length > 0 && globeRef.current) {
@@ -505,7 +909,16 @@ export function FlightsMap() {
         globeRef.current.pointOfView({ lat: centerLat, lng: centerLng, altitude }, 1000);
       }
     }
-  }, [stopAutoRotate, pointsData]);
+  }, [stopAutoRotate, setPlace, pointsData]);
+
+  // Toggle a continent filter from the stats panel, zooming to it when set
+  const handleContinentSelect = useCallback((continentCode: string | null) => {
+    stopAutoRotate();
+    setPlace('continent', continentCode);
+    if (continentCode !== null) {
+      zoomToBounds(pointsData.filter(p => p.airport.continent === continentCode));
+    }
+  }, [stopAutoRotate, setPlace, zoomToBounds, pointsData]);
 
   if (error) {
     return (
@@ -515,10 +928,27 @@ export function FlightsMap() {
     );
   }
 
-  const hasNoResults = !loading && flightStats.totalFlights === 0 && (selectedYear !== null || selectedAirline !== null);
+  // Filters that narrow the flights, as labelled in the empty state
+  const activeFilterLabels = [
+    selectedYear !== null ? String(selectedYear) : null,
+    dateRange && formatDateRange(dateRange),
+    placeLabel,
+    flightType && FLIGHT_TYPE_LABELS[flightType],
+    haul && HAUL_LABELS[haul],
+    selectedAirport && `through ${selectedAirport}`,
+    airlineLabel,
+    selectedAlliance && ALLIANCE_LABELS[selectedAlliance],
+    selectedTraveler,
+  ].filter((label): label is string => !!label);
+  const hasNoResults = !loading && !computing && flightStats.totalFlights === 0 && activeFilterLabels.length > 0;
 
   return (
-    <div className="relative w-full h-full bg-[#000011] flex flex-col">
+    <div
+      className="relative w-full h-full bg-[#000011] flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Top Navigation Bar */}
       <div className="absolute top-0 left-0 right-0 z-20 flex items-center justify-between px-4 py-3">
         {/* Left: Back button */}
@@ -535,20 +965,91 @@ export function FlightsMap() {
           Flight History
         </h1>
 
-        {/* Right: Filter */}
+        {/* Right: Compare and Filter */}
         {flightStats.years.length > 0 && (
-          <FilterPanel
-            years={flightStats.years}
-            selectedYear={selectedYear}
-            onYearChange={handleYearChange}
-            flightCount={flightStats.totalFlights}
-            airports={pointsData}
-            onAirportSelect={handleAirportCodeClick}
-          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setCompareWith(compareWith ? null : EMPTY_COMPARISON)}
+              className={`bg-gray-900/90 backdrop-blur px-3 py-2 rounded-lg border text-sm transition-colors flex items-center gap-2 ${
+                compareWith
+                  ? 'border-orange-400 text-orange-300'
+                  : 'border-gray-700 text-gray-300 hover:bg-gray-800/90'
+              }`}
+              aria-pressed={compareWith !== null}
+              title="Compare two filter sets [C]"
+            >
+              <span>⇄</span>
+              <span className="hidden sm:inline">Compare</span>
+            </button>
+            <FilterPanel
+              years={flightStats.years}
+              selectedYear={selectedYear}
+              onYearChange={handleYearChange}
+              monthlyCounts={flightStats.monthlyCounts}
+              dateRange={dateRange}
+              onDateRangeChange={handleDateRangeChange}
+              places={places}
+              onPlaceChange={setPlace}
+              onPlaceWithinChange={setPlaceWithin}
+              flightType={flightType}
+              onFlightTypeChange={setFlightType}
+              haul={haul}
+              onHaulChange={setHaul}
+              haulThresholds={haulThresholds}
+              onHaulThresholdsChange={setHaulThresholds}
+              flightTypeCounts={flightStats.flightTypeCounts}
+              haulCounts={flightStats.haulCounts}
+              airlineCounts={flightStats.airlineCounts}
+              airlineFilter={airlineFilter}
+              onAirlineFilterChange={setAirlineFilter}
+              flightCount={flightStats.totalFlights}
+              airports={pointsData}
+              onAirportSelect={handleAirportCodeClick}
+              flights={searchableFlights}
+              onFlightSelect={handleFlightSelect}
+              travelers={flightStats.travelerCounts}
+              selectedTraveler={selectedTraveler}
+              onTravelerChange={setSelectedTraveler}
+              showShared={showShared}
+              onSharedChange={setShowShared}
+              onClearAll={clearPanelFilters}
+            />
+          </div>
         )}
         {flightStats.years.length === 0 && <div />}
       </div>
 
+      {/* Compare mode: side A is the regular filters, side B is edited here */}
+      {compareWith && (
+        <ComparisonBar
+          sideA={comparisonSideA}
+          sideB={compareWith}
+          onSideBChange={setCompareWith}
+          onSwap={swapComparison}
+          onClose={() => setCompareWith(null)}
+          comparison={comparison}
+          years={flightStats.years}
+          airlines={flightStats.airlineCounts}
+          travelers={flightStats.travelerCounts}
+        />
+      )}
+
+      {/* Selected Trip Indicator - small chip at top */}
+      {selectedTrip && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20 max-w-[90vw]">
+          <button
+            onClick={() => setSelectedTrip(null)}
+            className="bg-gray-900/95 backdrop-blur px-3 py-1.5 rounded-full border border-yellow-500/50 text-sm flex items-center gap-2 shadow-lg hover:bg-gray-800/95 transition-colors max-w-full"
+            title="Click to clear selection (Esc)"
+          >
+            <span className="text-yellow-400 font-medium truncate">
+              {formatTripPath(selectedTrip)}
+            </span>
+            <span className="text-gray-500">✕</span>
+          </button>
+        </div>
+      )}
+
       {/* Selected Route Indicator - small chip at top */}
       {selectedRoute && (
         <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20">
@@ -621,6 +1122,59 @@ export function FlightsMap() {
           )}
         </button>
         
+        {/* Edit Flights (local drafts of the published flights) */}
+        <button
+          onClick={() => {
+            setShowEditorPanel(prev => !prev);
+            setShowImportPanel(false);
+          }}
+          disabled={!!privateData.data}
+          className={`relative bg-gray-900/90 backdrop-blur p-2 rounded-lg border transition-colors disabled:opacity-40 disabled:pointer-events-none ${
+            showEditorPanel
+              ? 'border-amber-500/50 text-amber-400 hover:bg-amber-900/30'
+              : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800/90'
+          }`}
+          title={drafts.length > 0 ? `Edit flights (${drafts.length} draft${drafts.length > 1 ? 's' : ''})` : 'Edit flights'}
+          aria-label="Add, edit or delete flights as local drafts"
+          aria-pressed={showEditorPanel}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+          </svg>
+          {drafts.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-gray-900 text-[10px] font-semibold leading-4 text-center">
+              {drafts.length}
+            </span>
+          )}
+        </button>
+
+        {/* Import Flights (boarding pass, calendar, other trackers) */}
+        <button
+          onClick={() => {
+            setShowImportPanel(prev => !prev);
+            setShowEditorPanel(false);
+          }}
+          className={`bg-gray-900/90 backdrop-blur p-2 rounded-lg border transition-colors ${
+            showImportPanel
+              ? 'border-cyan-500/50 text-cyan-400 hover:bg-cyan-900/30'
+              : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800/90'
+          }`}
+          title="Import flights"
+          aria-label="Import flights from a boarding pass or file to preview them"
+          aria-pressed={showImportPanel}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5v2m0 4v2m0 4v2M5 5a2 2 0 00-2 2v3a2 2 0 110 4v3a2 2 0 002 2h14a2 2 0 002-2v-3a2 2 0 110-4V7a2 2 0 00-2-2H5z" />
+          </svg>
+        </button>
+
+        {/* Export */}
+        <ExportMenu
+          flights={searchableFlights}
+          airports={pointsData}
+          fileName={exportFileName}
+        />
+
         {/* Share URL */}
         <button
           onClick={handleShareUrl}
@@ -629,7 +1183,7 @@ export function FlightsMap() {
               ? 'border-green-500/50 text-green-400'
               : 'border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800/90'
           }`}
-          title={copiedUrl ? 'URL copied!' : 'Copy URL to share'}
+          title={copiedUrl ? 'URL copied!' : privateData.data ? 'Copy URL to share (without your file)' : 'Copy URL to share'}
           aria-label="Copy current view URL to clipboard"
         >
           {copiedUrl ? (
@@ -644,14 +1198,55 @@ export function FlightsMap() {
         </button>
       </div>
 
+      {showImportPanel && (
+        <FlightImportPanel
+          onPreviewChange={setPreviewFlights}
+          onClose={() => setShowImportPanel(false)}
+        />
+      )}
+
+      {showEditorPanel && !privateData.data && (
+        <FlightEditorPanel
+          flights={searchableFlights}
+          drafts={drafts}
+          draftResults={draftResults}
+          storageError={!!draftsError}
+          onSave={saveDraft}
+          onRemove={removeDraft}
+          onClear={clearDrafts}
+          onClose={() => setShowEditorPanel(false)}
+        />
+      )}
+
+      {/* Offline / data update notice */}
+      <ConnectionStatus />
+
+      {(privateData.data || privateData.loading || privateData.error) && (
+        <PrivateDataBanner
+          data={privateData.data}
+          loading={privateData.loading}
+          error={privateData.error}
+          onClear={privateData.clear}
+        />
+      )}
+
+      {/* Drop target for a visitor's own flight log */}
+      {dragActive && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/60 border-2 border-dashed border-cyan-400/60 pointer-events-none">
+          <div className="text-center">
+            <div className="text-cyan-300 text-lg font-medium">Drop your flights.csv to see it on the globe</div>
+            <div className="text-gray-400 text-sm mt-1">It's read in your browser and never uploaded</div>
+          </div>
+        </div>
+      )}
+
+      {dataIssues.length > 0 && !dataNoticeDismissed && (
+        <DataQualityNotice issues={dataIssues} onDismiss={() => setDataNoticeDismissed(true)} />
+      )}
+
       {/* Empty State */}
       {hasNoResults && (
-        <EmptyState
-          selectedYear={selectedYear}
-          selectedAirline={selectedAirline}
-          selectedAirport={selectedAirport}
-          onClearFilters={clearAllFilters}
-        />
+        <EmptyState filters={activeFilterLabels} onClearFilters={clearAllFilters} />
       )}
 
       {/* Globe Container with ARIA */}
@@ -737,15 +1332,15 @@ export function FlightsMap() {
             const recentFlights = arcData.flights.slice(0, 5);
             return `
               <div class="bg-gray-900/95 px-3 py-2 rounded-lg shadow-xl border border-gray-700 text-sm">
-                <div class="font-bold text-purple-300">${firstFlight.origin_code} ↔ ${firstFlight.destination_code}</div>
-                <div class="text-gray-300 text-xs">${firstFlight.origin_name}</div>
+                <div class="font-bold text-purple-300">${escapeHtml(firstFlight.origin_code)} ↔ ${escapeHtml(firstFlight.destination_code)}</div>
+                <div class="text-gray-300 text-xs">${escapeHtml(firstFlight.origin_name)}</div>
                 <div class="text-gray-400 text-xs">↕</div>
-                <div class="text-gray-300 text-xs">${firstFlight.destination_name}</div>
+                <div class="text-gray-300 text-xs">${escapeHtml(firstFlight.destination_name)}</div>
                 <div class="mt-2 pt-2 border-t border-gray-700">
-                  <span class="text-purple-400">${arcData.routeCount} flight${arcData.routeCount > 1 ? 's' : ''}</span>
+                  <span class="text-purple-400">${escapeHtml(arcData.routeCount)} flight${arcData.routeCount > 1 ? 's' : ''}</span>
                 </div>
                 <div class="text-gray-500 text-xs mt-1">
-                  ${recentFlights.map((f: { date: string }) => f.date).join(', ')}${arcData.flights.length > 5 ? '...' : ''}
+                  ${recentFlights.map(formatFlightLabel).join(', ')}${arcData.flights.length > 5 ? '...' : ''}
                 </div>
                 <div class="text-gray-600 text-xs mt-2 italic">Click for details</div>
               </div>
@@ -754,39 +1349,46 @@ export function FlightsMap() {
           
           // Expanded tooltip for selected route
           const airlines = [...new Set(arcData.flights.map((f: { airline: string }) => f.airline))];
-          const years = [...new Set(arcData.flights.map((f: { date: string }) => f.date.split('-')[0]))].sort();
-          const allDates = arcData.flights.map((f: { date: string }) => f.date).sort().reverse();
+          const years = [...new Set(arcData.flights.map((f) => f.flightDate.year))].sort((a, b) => a - b);
+          // Most recent first
+          const sortedFlights = [...arcData.flights].sort((a, b) => compareFlightDates(b.flightDate, a.flightDate));
           
           return `
             <div class="bg-gray-900/95 px-4 py-3 rounded-lg shadow-xl border border-yellow-500/50 text-sm min-w-64">
-              <div class="font-bold text-yellow-400 text-base">${firstFlight.origin_code} ↔ ${firstFlight.destination_code}</div>
-              <div class="text-gray-300 text-xs mt-1">${firstFlight.origin_name}</div>
+              <div class="font-bold text-yellow-400 text-base">${escapeHtml(firstFlight.origin_code)} ↔ ${escapeHtml(firstFlight.destination_code)}</div>
+              <div class="text-gray-300 text-xs mt-1">${escapeHtml(firstFlight.origin_name)}</div>
               <div class="text-gray-400 text-xs">↕</div>
-              <div class="text-gray-300 text-xs">${firstFlight.destination_name}</div>
+              <div class="text-gray-300 text-xs">${escapeHtml(firstFlight.destination_name)}</div>
               
               <div class="mt-3 pt-3 border-t border-gray-700 grid grid-cols-2 gap-x-4 gap-y-2">
                 <div>
                   <div class="text-gray-500 text-xs">Total Flights</div>
-                  <div class="text-yellow-400 font-semibold">${arcData.routeCount}</div>
+                  <div class="text-yellow-400 font-semibold">${escapeHtml(arcData.routeCount)}</div>
                 </div>
                 <div>
                   <div class="text-gray-500 text-xs">Years Active</div>
-                  <div class="text-gray-300">${years.length > 3 ? years[0] + '–' + years[years.length-1] : years.join(', ')}</div>
+                  <div class="text-gray-300">${escapeHtml(years.length > 3 ? years[0] + '–' + years[years.length-1] : years.join(', '))}</div>
                 </div>
                 <div>
                   <div class="text-gray-500 text-xs">Airlines</div>
-                  <div class="text-orange-400">${airlines.slice(0, 3).join(', ')}${airlines.length > 3 ? '...' : ''}</div>
+                  <div class="text-orange-400">${airlines.slice(0, 3).map(escapeHtml).join(', ')}${airlines.length > 3 ? '...' : ''}</div>
                 </div>
                 <div>
                   <div class="text-gray-500 text-xs">Last Flight</div>
-                  <div class="text-gray-300">${allDates[0]}</div>
+                  <div class="text-gray-300">${escapeHtml(formatFlightDate(sortedFlights[0].flightDate))}</div>
                 </div>
               </div>
               
               <div class="mt-3 pt-3 border-t border-gray-700">
                 <div class="text-gray-500 text-xs mb-1">All Flights</div>
-                <div class="text-gray-400 text-xs max-h-24 overflow-y-auto">
-                  ${allDates.join(', ')}
+                <div class="text-gray-400 text-xs max-h-24 overflow-y-auto space-y-0.5">
+                  ${sortedFlights.map((f) => `
+                    <div>
+                      ${formatFlightLabel(f)}
+                      ${f.traveler ? `<span class="text-amber-300"> ${escapeHtml(f.traveler)}</span>` : ''}
+                      ${f.notes ? `<span class="text-gray-500 italic"> — ${escapeHtml(f.notes)}</span>` : ''}
+                    </div>
+                  `).join('')}
                 </div>
               </div>
               
@@ -800,29 +1402,23 @@ export function FlightsMap() {
         pointLng={(d: object) => (d as GlobePoint).lng}
         pointColor={(d: object) => {
           const point = d as GlobePoint;
-          if (selectedRouteAirports) {
-            const isRouteEndpoint = point.airport.code === selectedRouteAirports.origin || 
-                                    point.airport.code === selectedRouteAirports.destination;
-            if (isRouteEndpoint) return 'rgba(255, 200, 50, 1)'; // Bright gold for route endpoints
+          if (highlightedAirports) {
+            if (highlightedAirports.has(point.airport.code)) return 'rgba(255, 200, 50, 1)'; // Bright gold for route/trip stops
             return 'rgba(100, 100, 120, 0.4)'; // Dim other airports
           }
           return point.color;
         }}
         pointAltitude={(d: object) => {
           const point = d as GlobePoint;
-          if (selectedRouteAirports) {
-            const isRouteEndpoint = point.airport.code === selectedRouteAirports.origin || 
-                                    point.airport.code === selectedRouteAirports.destination;
-            if (isRouteEndpoint) return 0.05; // Raise route endpoints higher
+          if (highlightedAirports) {
+            if (highlightedAirports.has(point.airport.code)) return 0.05; // Raise route/trip stops higher
           }
           return 0.015;
         }}
         pointRadius={(d: object) => {
           const point = d as GlobePoint;
-          if (selectedRouteAirports) {
-            const isRouteEndpoint = point.airport.code === selectedRouteAirports.origin || 
-                                    point.airport.code === selectedRouteAirports.destination;
-            if (isRouteEndpoint) return point.size * 2; // Bigger for route endpoints
+          if (highlightedAirports) {
+            if (highlightedAirports.has(point.airport.code)) return point.size * 2; // Bigger for route/trip stops
             return point.size * 0.6; // Smaller for others
           }
           return point.size;
@@ -833,11 +1429,12 @@ export function FlightsMap() {
         pointLabel={(d: object) => {
           const point = d as GlobePoint;
           const a = point.airport;
+          const status = formatAirportStatus(a);
           return `
             <div class="bg-gray-900/95 px-3 py-2 rounded-lg shadow-xl border border-gray-700 text-sm">
-              <div class="font-bold text-yellow-300">${a.code}</div>
-              <div class="text-gray-300">${a.name}</div>
-              <div class="text-gray-400 text-xs">${a.municipality}, ${a.countryName}</div>
+              <div class="font-bold text-yellow-300">${escapeHtml(a.code)}${a.icaoCode && a.icaoCode !== a.code ? `<span class="text-gray-500 text-xs font-normal ml-1.5">${escapeHtml(a.icaoCode)}</span>` : ''}</div>
+              <div class="text-gray-300">${escapeHtml(a.name)}${status ? ` <span class="text-gray-500">(${escapeHtml(status)})</span>` : ''}</div>
+              <div class="text-gray-400 text-xs">${escapeHtml(a.municipality)}, ${escapeHtml(a.countryName)}</div>
               <div class="text-gray-500 text-xs">${a.elevationFt.toLocaleString()} ft (${a.elevationM.toLocaleString()} m)</div>
               <div class="text-gray-500 mt-2 pt-2 border-t border-gray-700">
                 <span class="text-yellow-400">${a.visitCount}</span> visits
@@ -863,6 +1460,7 @@ export function FlightsMap() {
           stopAutoRotate();
           setSelectedAirport(null);
           setSelectedRoute(null);
+          setSelectedTrip(null);
           setShowStats(false);
         }}
       />
@@ -878,13 +1476,29 @@ export function FlightsMap() {
           setSelectedAirport(null);
           setShowStats(false);
         }}
-        selectedAirline={selectedAirline}
+        airlineFilter={airlineFilter}
         onAirlineSelect={setSelectedAirline}
+        selectedAlliance={selectedAlliance}
+        onAllianceSelect={setSelectedAlliance}
+        selectedTraveler={selectedTraveler}
+        onTravelerSelect={setSelectedTraveler}
         onAirportClick={handleAirportCodeClick}
         onRouteClick={handleRouteCodeClick}
-        onCountryClick={handleCountryClick}
-        onRegionClick={handleRegionClick}
+        places={places}
+        onCountrySelect={handleCountrySelect}
+        onRegionSelect={handleRegionSelect}
+        onContinentSelect={handleContinentSelect}
+        flightType={flightType}
+        onFlightTypeSelect={setFlightType}
+        haul={haul}
+        onHaulSelect={setHaul}
+        haulThresholds={haulThresholds}
         validAirportCodes={validAirportCodes}
+        trips={trips}
+        selectedTrip={selectedTrip}
+        onTripSelect={handleTripSelect}
+        comparison={comparison}
+        comparisonLabels={comparisonLabels}
       />
 
       {/* Color Mode Selector with Legend */}
@@ -901,6 +1515,13 @@ export function FlightsMap() {
         aria-live="polite"
       >
         <div className="text-gray-400 flex flex-wrap items-center gap-x-2 gap-y-1">
+          {/* Stats below are from the previous filters until the worker catches up */}
+          {computing && (
+            <span className="flex items-center gap-1 text-gray-500">
+              <span className="w-3 h-3 rounded-full border-2 border-purple-400/30 border-t-purple-300 animate-spin" aria-hidden="true" />
+              <span className="sr-only sm:not-sr-only">Updating</span>
+            </span>
+          )}
           <span>
             <span className="text-purple-300 font-semibold">{flightStats.totalFlights}</span>
             <span className="hidden sm:inline"> flights</span>
@@ -923,16 +1544,93 @@ export function FlightsMap() {
               <span className="text-white font-semibold">{selectedYear}</span>
             </>
           )}
+          {dateRange && (
+            <>
+              <span className="text-gray-600">•</span>
+              <button
+                onClick={() => setDateRange(null)}
+                className="text-white font-semibold hover:text-gray-300 transition-colors"
+                title="Clear date range"
+              >
+                {formatDateRange(dateRange)} ✕
+              </button>
+            </>
+          )}
+          {places && PLACE_KINDS.filter(kind => places[kind] !== null).map(kind => (
+            <span key={kind} className="contents">
+              <span className="text-gray-600">•</span>
+              <button
+                onClick={() => setPlace(kind, null)}
+                className="text-cyan-300 font-semibold hover:text-gray-300 transition-colors"
+                title={`Clear ${kind} filter`}
+              >
+                {places.within && <span className="font-normal text-gray-400">within </span>}
+                {getPlaceName(kind, places[kind]!, placeAirports)} ✕
+              </button>
+            </span>
+          ))}
+          {flightType && (
+            <>
+              <span className="text-gray-600">•</span>
+              <button
+                onClick={() => setFlightType(null)}
+                className="text-white font-semibold hover:text-gray-300 transition-colors"
+                title="Clear flight type filter"
+              >
+                {FLIGHT_TYPE_LABELS[flightType]} ✕
+              </button>
+            </>
+          )}
+          {haul && (
+            <>
+              <span className="text-gray-600">•</span>
+              <button
+                onClick={() => setHaul(null)}
+                className="text-white font-semibold hover:text-gray-300 transition-colors"
+                title="Clear haul filter"
+              >
+                {HAUL_LABELS[haul]} ✕
+              </button>
+            </>
+          )}
           {selectedAirport && (
             <>
               <span className="text-gray-600">•</span>
               <span className="text-cyan-400 font-semibold">{selectedAirport}</span>
             </>
           )}
-          {selectedAirline && (
+          {selectedTraveler && (
+            <>
+              <span className="text-gray-600">•</span>
+              <span className="text-amber-300 font-semibold">{selectedTraveler}</span>
+            </>
+          )}
+          {showShared && (
+            <>
+              <span className="text-gray-600 hidden sm:inline">•</span>
+              <span className="text-yellow-400 hidden sm:inline">
+                {flightStats.sharedFlights.length} shared
+              </span>
+            </>
+          )}
+          {airlineLabel && (
+            <>
+              <span className="text-gray-600 hidden sm:inline">•</span>
+              <button
+                onClick={() => setAirlineFilter(null)}
+                className="text-orange-400 font-semibold hidden sm:inline hover:text-orange-300 transition-colors"
+                title="Clear airline filter"
+              >
+                {airlineLabel} ✕
+              </button>
+            </>
+          )}
+          {selectedAlliance && (
             <>
               <span className="text-gray-600 hidden sm:inline">•</span>
-              <span className="text-orange-400 font-semibold hidden sm:inline">{selectedAirline}</span>
+              <span className="font-semibold hidden sm:inline" style={{ color: ALLIANCE_COLORS[selectedAlliance] }}>
+                {ALLIANCE_LABELS[selectedAlliance]}
+              </span>
             </>
           )}
           {/* Help hint */}
@@ -972,7 +1670,10 @@ export function FlightsMap() {
               <div>{mobileInfoArc.flights[0]?.destination_name}</div>
             </div>
             <div className="mt-3 pt-3 border-t border-gray-700 text-xs text-gray-500">
-              Dates: {mobileInfoArc.flights.slice(0, 3).map(f => f.date).join(', ')}
+              Dates: {mobileInfoArc.flights.slice(0, 3).map(f => {
+                const date = formatFlightDate(f.flightDate);
+                return f.flightNumber ? `${date} (${f.flightNumber})` : date;
+              }).join(', ')}
               {mobileInfoArc.flights.length > 3 && '...'}
             </div>
             <button
@@ -23,8 +23,9 @@ export function KeyboardHelp({ isOpen, onClose }: KeyboardHelpProps) {
           <ShortcutRow keys={['S']} description="Toggle stats panel" />
           <ShortcutRow keys={['F']} description="Open filter panel" />
           <ShortcutRow keys={['R']} description="Reset view to default" />
+          <ShortcutRow keys={['C']} description="Toggle compare mode" />
           <ShortcutRow keys={['Esc']} description="Clear selection / close panels" />
-          <ShortcutRow keys={['1-4']} description="Switch color modes" />
+          <ShortcutRow keys={['1-5']} description="Switch color modes" />
           <div className="pt-3 border-t border-gray-700">
             <div className="text-gray-500 text-xs uppercase tracking-wide mb-2">Mouse/Touch</div>
             <ShortcutRow keys={['Drag']} description="Rotate globe" />
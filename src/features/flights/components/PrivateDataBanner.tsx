@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { IMPORT_FORMAT_LABELS } from '../importers';
+import type { PrivateFlightData } from '../types';
+
+interface PrivateDataBannerProps {
+  data: PrivateFlightData | null;
+  loading: boolean;
+  error: string | null;
+  onClear: () => void;
+}
+
+const VISIBLE_MESSAGES = 20;
+
+// Shown while the globe displays a dropped file instead of the published flights
+export function PrivateDataBanner({ data, loading, error, onClear }: PrivateDataBannerProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const errorCount = data?.result.errors.length ?? 0;
+  const messages = data ? [...data.result.errors, ...data.result.warnings] : [];
+
+  return (
+    <div
+      className="absolute bottom-20 left-4 z-20 w-80 max-w-[calc(100vw-2rem)] bg-gray-900/95 backdrop-blur rounded-lg border border-cyan-500/40 shadow-xl p-3 text-xs"
+      role="status"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          {loading && <div className="text-gray-300">Reading file…</div>}
+          {!loading && data && (
+            <>
+              <div className="text-cyan-300 font-medium truncate" title={data.fileName}>
+                🔒 {data.fileName}
+              </div>
+              <div className="text-gray-400 mt-0.5">
+                {data.result.flights.length} flights from {IMPORT_FORMAT_LABELS[data.result.format]}
+                {errorCount > 0 && <span className="text-red-400"> • {errorCount} skipped</span>}
+              </div>
+              <div className="text-gray-500 mt-0.5">
+                Only in this browser - nothing is uploaded, and shared links show the published flights
+              </div>
+            </>
+          )}
+          {!loading && error && <div className="text-red-400 break-words">{error}</div>}
+        </div>
+        <button
+          onClick={onClear}
+          className="text-gray-500 hover:text-white"
+          aria-label={data ? 'Stop viewing the dropped file' : 'Dismiss'}
+        >
+          ✕
+        </button>
+      </div>
+
+      {messages.length > 0 && (
+        <>
+          <button onClick={() => setExpanded(!expanded)} className="text-gray-500 hover:text-gray-300 mt-2">
+            {expanded ? 'Hide details' : `Show ${messages.length} message${messages.length === 1 ? '' : 's'}`}
+          </button>
+          {expanded && (
+            <div className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+              {messages.slice(0, VISIBLE_MESSAGES).map((message, i) => (
+                <div key={i} className={i < errorCount ? 'text-red-400' : 'text-yellow-500'}>{message}</div>
+              ))}
+              {messages.length > VISIBLE_MESSAGES && (
+                <div className="text-gray-600">+{messages.length - VISIBLE_MESSAGES} more</div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {data && (
+        <button
+          onClick={onClear}
+          className="w-full mt-2 px-3 py-1.5 rounded text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+        >
+          Back to published flights
+        </button>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,16 @@ import { CollapsibleSection } from './shared';
 
 interface RegionsSectionProps {
   topRegions: { code: string; name: string; country: string; count: number }[];
-  onRegionClick: (regionCode: string) => void;
+  selectedRegion: string | null;
+  onRegionSelect: (regionCode: string | null) => void;
   isOpen: boolean;
   onToggle: () => void;
 }
 
 export function RegionsSection({
   topRegions,
-  onRegionClick,
+  selectedRegion,
+  onRegionSelect,
   isOpen,
   onToggle,
 }: RegionsSectionProps) {
@@ -31,9 +33,12 @@ export function RegionsSection({
         {visibleRegions.map(({ code, name, country, count }) => (
           <div key={code} className="flex justify-between items-center text-xs">
             <button
-              onClick={() => onRegionClick(code)}
-              className="text-gray-300 hover:text-cyan-400 transition-colors text-left truncate max-w-[180px]"
-              title={`${name}, ${country}`}
+              onClick={() => onRegionSelect(selectedRegion === code ? null : code)}
+              className={`transition-colors text-left truncate max-w-[180px] ${
+                selectedRegion === code ? 'text-cyan-400 font-medium' : 'text-gray-300 hover:text-cyan-400'
+              }`}
+              title={selectedRegion === code ? 'Show all regions' : `Filter by ${name}, ${country}`}
+              aria-pressed={selectedRegion === code}
             >
               {name}
               <span className="text-gray-600 ml-1">({country})</span>
@@ -1,10 +1,18 @@
 import { useState } from 'react';
-import type { FlightStats } from '../types';
+import type { AirlineFilter, AllianceFilter, FlightComparison, FlightStats, FlightType, HaulLength, HaulThresholds, PlaceFilter, Trip } from '../types';
 import { StatItem, CollapsibleSection, ClickableAirport, ClickableRoute, FlightCount } from './shared';
 import { AirlinesSection } from './AirlinesSection';
+import { AlliancesSection } from './AlliancesSection';
 import { CountriesSection } from './CountriesSection';
 import { RegionsSection } from './RegionsSection';
+import { FlightTypesSection } from './FlightTypesSection';
 import { RoutesSection } from './RoutesSection';
+import { TripsSection } from './TripsSection';
+import { TravelersSection } from './TravelersSection';
+import { ComparisonSection } from './ComparisonSection';
+import { formatAirportStatus } from '../utils/airports';
+import { ALLIANCE_LABELS } from '../utils/alliances';
+import { describeAirlineFilter } from '../utils/airlineFilter';
 
 interface StatsPanelProps {
   stats: FlightStats;
@@ -12,13 +20,29 @@ interface StatsPanelProps {
   onToggle: () => void;
   selectedYear: number | null;
   onClearAirport: () => void;
-  selectedAirline: string | null;
+  airlineFilter: AirlineFilter | null;
   onAirlineSelect: (airline: string | null) => void;
+  selectedAlliance: AllianceFilter | null;
+  onAllianceSelect: (alliance: AllianceFilter | null) => void;
+  selectedTraveler: string | null;
+  onTravelerSelect: (traveler: string | null) => void;
   onAirportClick: (code: string) => void;
   onRouteClick: (origin: string, destination: string) => void;
-  onCountryClick: (countryCode: string) => void;
-  onRegionClick: (regionCode: string) => void;
+  places: PlaceFilter | null;
+  onCountrySelect: (countryCode: string | null) => void;
+  onRegionSelect: (regionCode: string | null) => void;
+  onContinentSelect: (continentCode: string | null) => void;
+  flightType: FlightType | null;
+  onFlightTypeSelect: (type: FlightType | null) => void;
+  haul: HaulLength | null;
+  onHaulSelect: (haul: HaulLength | null) => void;
+  haulThresholds: HaulThresholds;
   validAirportCodes: Set<string>;
+  trips: Trip[];
+  selectedTrip: Trip | null;
+  onTripSelect: (tripId: string | null) => void;
+  comparison: FlightComparison | null; // compare mode: side B relative to side A
+  comparisonLabels: { a: string; b: string };
 }
 
 export function StatsPanel({
@@ -27,17 +51,32 @@ export function StatsPanel({
   onToggle,
   selectedYear,
   onClearAirport,
-  selectedAirline,
+  airlineFilter,
   onAirlineSelect,
+  selectedAlliance,
+  onAllianceSelect,
+  selectedTraveler,
+  onTravelerSelect,
   onAirportClick,
   onRouteClick,
-  onCountryClick,
-  onRegionClick,
+  places,
+  onCountrySelect,
+  onRegionSelect,
+  onContinentSelect,
+  flightType,
+  onFlightTypeSelect,
+  haul,
+  onHaulSelect,
+  haulThresholds,
   validAirportCodes,
+  trips,
+  selectedTrip,
+  onTripSelect,
+  comparison,
+  comparisonLabels,
 }: StatsPanelProps) {
   const earthCircumference = 40075;
   const timesAroundEarth = (stats.totalDistance / earthCircumference).toFixed(1);
-  const domesticFlights = stats.totalFlights - stats.internationalFlights;
   const airportInfo = stats.selectedAirportInfo;
 
   // State to track which sections are open (for collapse all/expand all)
@@ -104,14 +143,29 @@ export function StatsPanel({
             <OverallStats
               stats={stats}
               selectedYear={selectedYear}
-              selectedAirline={selectedAirline}
+              airlineFilter={airlineFilter}
               onAirlineSelect={onAirlineSelect}
+              selectedAlliance={selectedAlliance}
+              onAllianceSelect={onAllianceSelect}
+              selectedTraveler={selectedTraveler}
+              onTravelerSelect={onTravelerSelect}
               onAirportClick={onAirportClick}
               onRouteClick={onRouteClick}
-              onCountryClick={onCountryClick}
-              onRegionClick={onRegionClick}
+              places={places}
+              onCountrySelect={onCountrySelect}
+              onRegionSelect={onRegionSelect}
+              onContinentSelect={onContinentSelect}
+              flightType={flightType}
+              onFlightTypeSelect={onFlightTypeSelect}
+              haul={haul}
+              onHaulSelect={onHaulSelect}
+              haulThresholds={haulThresholds}
+              trips={trips}
+              selectedTrip={selectedTrip}
+              onTripSelect={onTripSelect}
+              comparison={comparison}
+              comparisonLabels={comparisonLabels}
               timesAroundEarth={timesAroundEarth}
-              domesticFlights={domesticFlights}
               getSectionOpen={getSectionOpen}
               toggleSection={toggleSection}
               validAirportCodes={validAirportCodes}
@@ -141,6 +195,7 @@ function AirportStats({
   toggleSection: (id: string) => void;
   validAirportCodes: Set<string>;
 }) {
+  const status = formatAirportStatus(airportInfo);
   return (
     <>
       <div className="flex items-center justify-between mb-1">
@@ -152,7 +207,10 @@ function AirportStats({
           ✕ Clear
         </button>
       </div>
-      <div className="text-gray-300 text-sm mb-1">{airportInfo.name}</div>
+      <div className="text-gray-300 text-sm mb-1">
+        {airportInfo.name}
+        {status && <span className="text-gray-500 ml-1">({status})</span>}
+      </div>
       <div className="text-gray-500 text-xs mb-1">
         {airportInfo.municipality}, {airportInfo.regionName}
       </div>
@@ -336,28 +394,58 @@ function AirportStats({
 function OverallStats({
   stats,
   selectedYear,
-  selectedAirline,
+  airlineFilter,
   onAirlineSelect,
+  selectedAlliance,
+  onAllianceSelect,
+  selectedTraveler,
+  onTravelerSelect,
   onAirportClick,
   onRouteClick,
-  onCountryClick,
-  onRegionClick,
+  places,
+  onCountrySelect,
+  onRegionSelect,
+  onContinentSelect,
+  flightType,
+  onFlightTypeSelect,
+  haul,
+  onHaulSelect,
+  haulThresholds,
+  trips,
+  selectedTrip,
+  onTripSelect,
+  comparison,
+  comparisonLabels,
   timesAroundEarth,
-  domesticFlights,
   getSectionOpen,
   toggleSection,
   validAirportCodes,
 }: {
   stats: FlightStats;
   selectedYear: number | null;
-  selectedAirline: string | null;
+  airlineFilter: AirlineFilter | null;
   onAirlineSelect: (airline: string | null) => void;
+  selectedAlliance: AllianceFilter | null;
+  onAllianceSelect: (alliance: AllianceFilter | null) => void;
+  selectedTraveler: string | null;
+  onTravelerSelect: (traveler: string | null) => void;
   onAirportClick: (code: string) => void;
   onRouteClick: (origin: string, destination: string) => void;
-  onCountryClick: (countryCode: string) => void;
-  onRegionClick: (regionCode: string) => void;
+  places: PlaceFilter | null;
+  onCountrySelect: (countryCode: string | null) => void;
+  onRegionSelect: (regionCode: string | null) => void;
+  onContinentSelect: (continentCode: string | null) => void;
+  flightType: FlightType | null;
+  onFlightTypeSelect: (type: FlightType | null) => void;
+  haul: HaulLength | null;
+  onHaulSelect: (haul: HaulLength | null) => void;
+  haulThresholds: HaulThresholds;
+  trips: Trip[];
+  selectedTrip: Trip | null;
+  onTripSelect: (tripId: string | null) => void;
+  comparison: FlightComparison | null; // compare mode: side B relative to side A
+  comparisonLabels: { a: string; b: string };
   timesAroundEarth: string;
-  domesticFlights: number;
   getSectionOpen: (id: string, defaultOpen?: boolean) => boolean;
   toggleSection: (id: string) => void;
   validAirportCodes: Set<string>;
@@ -366,9 +454,9 @@ function OverallStats({
     <>
       <h3 className="text-white font-semibold mb-1 text-base">Flight Statistics</h3>
       {selectedYear && <div className="text-purple-400 text-xs mb-3">Filtered: {selectedYear}</div>}
-      {selectedAirline && (
+      {airlineFilter && (
         <div className="text-orange-400 text-xs mb-3 flex items-center gap-2">
-          <span>Airline: {selectedAirline}</span>
+          <span>Airline: {describeAirlineFilter(airlineFilter)}</span>
           <button
             onClick={() => onAirlineSelect(null)}
             className="text-gray-500 hover:text-white transition-colors"
@@ -377,12 +465,47 @@ function OverallStats({
           </button>
         </div>
       )}
-      {!selectedYear && !selectedAirline && stats.firstFlight && stats.lastFlight && (
+      {selectedTraveler && (
+        <div className="text-amber-300 text-xs mb-3 flex items-center gap-2">
+          <span>Traveler: {selectedTraveler}</span>
+          <button
+            onClick={() => onTravelerSelect(null)}
+            className="text-gray-500 hover:text-white transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      {selectedAlliance && (
+        <div className="text-orange-400 text-xs mb-3 flex items-center gap-2">
+          <span>Alliance: {ALLIANCE_LABELS[selectedAlliance]}</span>
+          <button
+            onClick={() => onAllianceSelect(null)}
+            className="text-gray-500 hover:text-white transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+      {!selectedYear && !airlineFilter && !selectedAlliance && !selectedTraveler && stats.firstFlight && stats.lastFlight && (
         <div className="text-gray-500 text-xs mb-3">
           {stats.firstFlight.date} — {stats.lastFlight.date}
         </div>
       )}
 
+      {/* Side B relative to side A in compare mode */}
+      {comparison && (
+        <ComparisonSection
+          comparison={comparison}
+          labelA={comparisonLabels.a}
+          labelB={comparisonLabels.b}
+          onAirportClick={onAirportClick}
+          validAirportCodes={validAirportCodes}
+          isOpen={getSectionOpen('overall-comparison')}
+          onToggle={() => toggleSection('overall-comparison')}
+        />
+      )}
+
       {/* Overview Grid */}
       <div className="grid grid-cols-2 gap-3">
         <StatItem icon="✈️" label="Total Flights" value={stats.totalFlights.toLocaleString()} />
@@ -390,7 +513,7 @@ function OverallStats({
         <StatItem icon="🌍" label="Countries" value={stats.totalCountries.toString()} />
         <StatItem icon="🏢" label="Airlines" value={stats.totalAirlines.toString()} />
         <StatItem icon="🔀" label="Unique Routes" value={stats.uniqueRoutes.toString()} />
-        <StatItem icon="⏱️" label="Est. Flight Time" value={`${stats.totalFlightTime.toLocaleString()}h`} />
+        <StatItem icon="⏱️" label="Flight Time" value={`${stats.totalFlightTime.toLocaleString()}h`} />
       </div>
 
       {/* Distance Stats */}
@@ -410,52 +533,96 @@ function OverallStats({
           <StatItem icon="🔄" label="Around Earth" value={`${timesAroundEarth}×`} />
           <StatItem icon="📐" label="Avg Distance" value={`${stats.averageDistance.toLocaleString()} km`} />
         </div>
+        <StatItem
+          icon="⏱️"
+          label="Hours Flown"
+          value={`${stats.totalFlightTime.toLocaleString()}h`}
+          subValue={
+            <>
+              <span className="text-green-400">{stats.measuredFlightTime.toLocaleString()}h</span> measured
+              ({stats.measuredFlights}✈) •{' '}
+              <span className="text-yellow-400">
+                {(stats.totalFlightTime - stats.measuredFlightTime).toLocaleString()}h
+              </span>{' '}
+              estimated ({stats.estimatedFlights}✈)
+            </>
+          }
+          className="mt-3"
+        />
+        {stats.measuredFlights > 0 && (
+          <div className="grid grid-cols-2 gap-3 mt-3">
+            <StatItem icon="🌙" label="Red-eyes" value={stats.redEyeFlights.toString()} />
+            <StatItem icon="🌃" label="Overnight" value={stats.overnightFlights.toString()} />
+          </div>
+        )}
       </CollapsibleSection>
 
       {/* Flight Types */}
-      <CollapsibleSection
-        title="Flight Types"
-        icon="🌐"
+      <FlightTypesSection
+        stats={stats}
+        flightType={flightType}
+        onFlightTypeSelect={onFlightTypeSelect}
+        haul={haul}
+        onHaulSelect={onHaulSelect}
+        haulThresholds={haulThresholds}
         isOpen={getSectionOpen('overall-flight-types')}
         onToggle={() => toggleSection('overall-flight-types')}
-      >
-        <div className="grid grid-cols-2 gap-3">
-          <StatItem icon="🏠" label="Domestic" value={domesticFlights.toString()} />
-          <StatItem icon="🌐" label="International" value={stats.internationalFlights.toString()} />
-          <StatItem icon="🌏" label="Intercontinental" value={stats.intercontinentalFlights.toString()} />
-          {stats.mostVisitedCountry && (
-            <StatItem
-              icon="🏆"
-              label="Top Country"
-              value={stats.mostVisitedCountry.country}
-              subValue={
-                <>
-                  <span className="text-yellow-400">{stats.mostVisitedCountry.count}</span>✈{' '}
-                  <span className="text-green-400">{stats.mostVisitedCountry.arrivals}</span>↓{' '}
-                  <span className="text-blue-400">{stats.mostVisitedCountry.departures}</span>↑
-                </>
-              }
-            />
-          )}
-        </div>
-      </CollapsibleSection>
+      />
+
+      {/* Trips */}
+      {trips.length > 0 && (
+        <TripsSection
+          trips={trips}
+          selectedTrip={selectedTrip}
+          onTripSelect={onTripSelect}
+          onAirportClick={onAirportClick}
+          isOpen={getSectionOpen('overall-trips')}
+          onToggle={() => toggleSection('overall-trips')}
+        />
+      )}
+
+      {/* Travelers, for logs shared by several people */}
+      {stats.travelerCounts.length > 1 && (
+        <TravelersSection
+          travelerCounts={stats.travelerCounts}
+          sharedFlights={stats.sharedFlights}
+          selectedTraveler={selectedTraveler}
+          onTravelerSelect={onTravelerSelect}
+          onAirportClick={onAirportClick}
+          onRouteClick={onRouteClick}
+          isOpen={getSectionOpen('overall-travelers')}
+          onToggle={() => toggleSection('overall-travelers')}
+        />
+      )}
 
       {/* Airlines */}
       {stats.airlineCounts.length > 0 && (
         <AirlinesSection
           airlineCounts={stats.airlineCounts}
-          selectedAirline={selectedAirline}
+          airlineFilter={airlineFilter}
           onAirlineSelect={onAirlineSelect}
           isOpen={getSectionOpen('overall-airlines')}
           onToggle={() => toggleSection('overall-airlines')}
         />
       )}
 
+      {/* Alliances */}
+      {stats.allianceStats.length > 0 && (
+        <AlliancesSection
+          allianceStats={stats.allianceStats}
+          selectedAlliance={selectedAlliance}
+          onAllianceSelect={onAllianceSelect}
+          isOpen={getSectionOpen('overall-alliances')}
+          onToggle={() => toggleSection('overall-alliances')}
+        />
+      )}
+
       {/* Countries */}
       {stats.topCountries.length > 0 && (
         <CountriesSection
           topCountries={stats.topCountries}
-          onCountryClick={onCountryClick}
+          selectedCountry={places?.country ?? null}
+          onCountrySelect={onCountrySelect}
           isOpen={getSectionOpen('overall-countries')}
           onToggle={() => toggleSection('overall-countries')}
         />
@@ -465,14 +632,15 @@ function OverallStats({
       {stats.topRegions.length > 0 && (
         <RegionsSection
           topRegions={stats.topRegions}
-          onRegionClick={onRegionClick}
+          selectedRegion={places?.region ?? null}
+          onRegionSelect={onRegionSelect}
           isOpen={getSectionOpen('overall-regions')}
           onToggle={() => toggleSection('overall-regions')}
         />
       )}
 
       {/* Continents */}
-      {Object.keys(stats.continentCounts).length > 0 && (
+      {stats.topContinents.length > 0 && (
         <CollapsibleSection
           title="Continents Visited"
           icon="🗺️"
@@ -480,14 +648,20 @@ function OverallStats({
           onToggle={() => toggleSection('overall-continents')}
         >
           <div className="flex flex-wrap gap-2">
-            {Object.entries(stats.continentCounts)
-              .sort((a, b) => b[1] - a[1])
-              .map(([continent, count]) => (
-                <span key={continent} className="bg-gray-800 px-2 py-1 rounded text-xs">
-                  <span className="text-gray-300">{continent}</span>
-                  <span className="text-purple-400 ml-1">×{count}</span>
-                </span>
-              ))}
+            {stats.topContinents.map(({ code, name, count }) => (
+              <button
+                key={code}
+                onClick={() => onContinentSelect(places?.continent === code ? null : code)}
+                className={`px-2 py-1 rounded text-xs transition-colors ${
+                  places?.continent === code ? 'bg-gray-600' : 'bg-gray-800 hover:bg-gray-700'
+                }`}
+                title={places?.continent === code ? 'Show all continents' : `Filter by ${name}`}
+                aria-pressed={places?.continent === code}
+              >
+                <span className="text-gray-300">{name}</span>
+                <span className="text-purple-400 ml-1">×{count}</span>
+              </button>
+            ))}
           </div>
         </CollapsibleSection>
       )}
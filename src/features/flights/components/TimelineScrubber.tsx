@@ -0,0 +1,193 @@
+import { useState, useRef, useMemo, type PointerEvent, type KeyboardEvent } from 'react';
+import type { DateRange, MonthCount } from '../types';
+import { formatDateRange, isMonthInDateRange, monthsAgo } from '../utils/dateRange';
+
+interface TimelineScrubberProps {
+  months: MonthCount[]; // every month from the first flight to the last
+  range: DateRange | null;
+  onChange: (range: DateRange | null) => void;
+}
+
+// Selection being dragged: the fixed edge and the one following the pointer (month indexes)
+interface Drag {
+  anchor: number;
+  current: number;
+}
+
+const PRESETS = [
+  { label: 'Last 12 months', months: 12 },
+  { label: 'Last 18 months', months: 18 },
+  { label: 'Last 5 years', months: 60 },
+];
+
+function formatMonth(month: string): string {
+  return formatDateRange({ from: month, to: month });
+}
+
+// Flights per month with a draggable range selection. Drag across the chart to pick
+// a range, drag a handle to move one end, or use the arrow keys on a focused handle.
+export function TimelineScrubber({ months, range, onChange }: TimelineScrubberProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const maxCount = Math.max(1, ...months.map((m) => m.count));
+
+  // Selected month indexes from the range (null when the range doesn't overlap the data)
+  const rangeSelection = useMemo(() => {
+    if (!range) return null;
+    const first = months.findIndex((m) => isMonthInDateRange(m.month, range));
+    if (first === -1) return null;
+    let last = first;
+    while (last + 1 < months.length && isMonthInDateRange(months[last + 1].month, range)) last++;
+    return { start: first, end: last };
+  }, [months, range]);
+
+  const selection = drag
+    ? { start: Math.min(drag.anchor, drag.current), end: Math.max(drag.anchor, drag.current) }
+    : rangeSelection;
+
+  const selectedCount = selection
+    ? months.slice(selection.start, selection.end + 1).reduce((sum, m) => sum + m.count, 0)
+    : range ? 0 : null;
+
+  if (months.length === 0) return null;
+
+  const indexAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const index = Math.floor(((clientX - rect.left) / rect.width) * months.length);
+    return Math.min(months.length - 1, Math.max(0, index));
+  };
+
+  // Selecting every month is the same as no range
+  const commit = (start: number, end: number) => {
+    if (start === 0 && end === months.length - 1) onChange(null);
+    else onChange({ from: months[start].month, to: months[end].month });
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    const edge = (e.target as HTMLElement).dataset.edge;
+    const index = indexAt(e.clientX);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (selection && edge === 'start') setDrag({ anchor: selection.end, current: selection.start });
+    else if (selection && edge === 'end') setDrag({ anchor: selection.start, current: selection.end });
+    else setDrag({ anchor: index, current: index });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const index = indexAt(e.clientX);
+    if (index !== drag.current) setDrag({ ...drag, current: index });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    commit(Math.min(drag.anchor, drag.current), Math.max(drag.anchor, drag.current));
+    setDrag(null);
+  };
+
+  const handleKeyDown = (edge: 'start' | 'end') => (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!selection) return;
+    const step = e.shiftKey ? 12 : 1;
+    const delta = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0;
+    if (delta === 0) return;
+    e.preventDefault();
+    if (edge === 'start') commit(Math.min(selection.end, Math.max(0, selection.start + delta)), selection.end);
+    else commit(selection.start, Math.max(selection.start, Math.min(months.length - 1, selection.end + delta)));
+  };
+
+  const edgePercent = (index: number) => (index / months.length) * 100;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="text-gray-300">
+          {drag && selection
+            ? formatDateRange({ from: months[selection.start].month, to: months[selection.end].month })
+            : range ? formatDateRange(range) : 'All time'}
+        </span>
+        {selectedCount !== null && <span className="text-gray-500">{selectedCount} flights</span>}
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative h-12 cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          viewBox={`0 0 ${months.length} ${maxCount}`}
+          preserveAspectRatio="none"
+          aria-hidden="true"
+        >
+          {months.map(({ month, count }, i) => (
+            <rect
+              key={month}
+              x={i + 0.1}
+              y={maxCount - count}
+              width={0.8}
+              height={count}
+              className={!selection || (i >= selection.start && i <= selection.end) ? 'fill-purple-400' : 'fill-gray-600'}
+            />
+          ))}
+        </svg>
+
+        {selection && (
+          <>
+            <div
+              className="absolute inset-y-0 bg-purple-500/10 border-x border-purple-400/60 pointer-events-none"
+              style={{ left: `${edgePercent(selection.start)}%`, right: `${100 - edgePercent(selection.end + 1)}%` }}
+            />
+            {(['start', 'end'] as const).map((edge) => {
+              const index = edge === 'start' ? selection.start : selection.end;
+              return (
+                <div
+                  key={edge}
+                  data-edge={edge}
+                  role="slider"
+                  tabIndex={0}
+                  aria-label={edge === 'start' ? 'Range start' : 'Range end'}
+                  aria-valuemin={0}
+                  aria-valuemax={months.length - 1}
+                  aria-valuenow={index}
+                  aria-valuetext={formatMonth(months[index].month)}
+                  onKeyDown={handleKeyDown(edge)}
+                  className="absolute inset-y-0 w-2 -ml-1 cursor-ew-resize rounded-sm bg-purple-400/80 hover:bg-purple-300 focus:outline-none focus:ring-2 focus:ring-purple-300"
+                  style={{ left: `${edgePercent(edge === 'start' ? index : index + 1)}%` }}
+                />
+              );
+            })}
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-between text-gray-500 text-xs mt-1">
+        <span>{formatMonth(months[0].month)}</span>
+        <span>{formatMonth(months[months.length - 1].month)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {PRESETS.map(({ label, months: count }) => (
+          <button
+            key={label}
+            onClick={() => onChange({ from: monthsAgo(count - 1), to: null })}
+            className="px-2 py-1 rounded text-xs bg-gray-800 text-gray-400 hover:bg-gray-700 hover:text-gray-200 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+        {range && (
+          <button
+            onClick={() => onChange(null)}
+            className="px-2 py-1 rounded text-xs text-gray-500 hover:text-white transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
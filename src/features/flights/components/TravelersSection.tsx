@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { CollapsibleSection, ClickableRoute } from './shared';
+import type { SharedFlight, TravelerCount } from '../types';
+
+interface TravelersSectionProps {
+  travelerCounts: TravelerCount[];
+  sharedFlights: SharedFlight[];
+  selectedTraveler: string | null;
+  onTravelerSelect: (traveler: string | null) => void;
+  onAirportClick: (code: string) => void;
+  onRouteClick: (origin: string, destination: string) => void;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+const INITIAL_VISIBLE = 5;
+
+export function TravelersSection({
+  travelerCounts,
+  sharedFlights,
+  selectedTraveler,
+  onTravelerSelect,
+  onAirportClick,
+  onRouteClick,
+  isOpen,
+  onToggle,
+}: TravelersSectionProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const hasMore = sharedFlights.length > INITIAL_VISIBLE;
+  const visibleShared = showAll ? sharedFlights : sharedFlights.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <CollapsibleSection
+      title={`Travelers (${travelerCounts.length})`}
+      icon="👥"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      <div className="space-y-1">
+        {travelerCounts.map(({ traveler, count, sharedFlights: shared }) => (
+          <button
+            key={traveler}
+            onClick={() => onTravelerSelect(selectedTraveler === traveler ? null : traveler)}
+            className={`w-full flex justify-between items-center text-xs rounded px-1.5 py-1 transition-colors ${
+              selectedTraveler === traveler ? 'bg-gray-700' : 'hover:bg-gray-800'
+            }`}
+          >
+            <span className="text-amber-300 truncate">{traveler}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              <span className="text-yellow-400">{count}</span>
+              <span className="text-gray-600 mx-1">✈</span>
+              {shared} shared
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {sharedFlights.length > 0 && (
+        <div className="mt-3">
+          <div className="text-gray-500 text-xs mb-1">Flown together ({sharedFlights.length})</div>
+          <div className="space-y-1">
+            {visibleShared.map((flight) => (
+              <div key={flight.key} className="text-sm">
+                <div className="flex justify-between text-gray-300">
+                  <ClickableRoute
+                    origin={flight.origin}
+                    destination={flight.destination}
+                    onAirportClick={onAirportClick}
+                    onRouteClick={onRouteClick}
+                  />
+                  <span className="text-gray-500 text-xs">{flight.date}</span>
+                </div>
+                <div className="text-gray-500 text-xs truncate">{flight.travelers.join(', ')}</div>
+              </div>
+            ))}
+          </div>
+          {hasMore && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="mt-2 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+            >
+              {showAll ? '← Show less' : `Show ${sharedFlights.length - INITIAL_VISIBLE} more →`}
+            </button>
+          )}
+        </div>
+      )}
+    </CollapsibleSection>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { CollapsibleSection, ClickableAirport } from './shared';
+import { formatFlightDate } from '../utils/dates';
+import { formatTripPath } from '../utils/trips';
+import type { Trip } from '../types';
+
+interface TripsSectionProps {
+  trips: Trip[];
+  selectedTrip: Trip | null;
+  onTripSelect: (tripId: string | null) => void;
+  onAirportClick: (code: string) => void;
+  isOpen: boolean;
+  onToggle: () => void;
+}
+
+export function TripsSection({
+  trips,
+  selectedTrip,
+  onTripSelect,
+  onAirportClick,
+  isOpen,
+  onToggle,
+}: TripsSectionProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const INITIAL_VISIBLE = 5;
+  const hasMore = trips.length > INITIAL_VISIBLE;
+  const visibleTrips = showAll ? trips : trips.slice(0, INITIAL_VISIBLE);
+
+  return (
+    <CollapsibleSection
+      title={`Trips (${trips.length})`}
+      icon="🧳"
+      isOpen={isOpen}
+      onToggle={onToggle}
+    >
+      {selectedTrip && (
+        <div className="mb-3 p-2 rounded border border-yellow-500/40 bg-gray-800/60">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-yellow-400 text-xs font-medium">
+              {formatFlightDate(selectedTrip.startDate)} — {formatFlightDate(selectedTrip.endDate)}
+            </span>
+            <button
+              onClick={() => onTripSelect(null)}
+              className="text-gray-500 hover:text-white text-xs transition-colors"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center mb-2">
+            <div>
+              <div className="text-green-400 font-semibold text-sm">{selectedTrip.totalDistance.toLocaleString()}</div>
+              <div className="text-gray-500 text-xs">km</div>
+            </div>
+            <div>
+              <div className="text-purple-300 font-semibold text-sm">{selectedTrip.durationDays}</div>
+              <div className="text-gray-500 text-xs">day{selectedTrip.durationDays !== 1 ? 's' : ''}</div>
+            </div>
+            <div>
+              <div className="text-blue-400 font-semibold text-sm">{selectedTrip.flightTime}h</div>
+              <div className="text-gray-500 text-xs">in air</div>
+            </div>
+          </div>
+          <ol className="space-y-0.5 mb-2">
+            {selectedTrip.legs.map((leg, index) => (
+              <li key={leg.id} className="flex justify-between text-xs">
+                <span className="text-gray-300">
+                  <span className="text-yellow-500 mr-1">{index + 1}.</span>
+                  <ClickableAirport code={leg.origin_code} onClick={onAirportClick} className="text-gray-300" />
+                  <span className="text-gray-500 mx-1">→</span>
+                  <ClickableAirport code={leg.destination_code} onClick={onAirportClick} className="text-gray-300" />
+                  {leg.flightNumber && <span className="text-orange-400 ml-1">{leg.flightNumber}</span>}
+                </span>
+                <span className="text-gray-500">{formatFlightDate(leg.flightDate)}</span>
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-wrap gap-1">
+            {selectedTrip.countries.map((country) => (
+              <span key={country.code} className="bg-gray-800 px-2 py-0.5 rounded text-xs text-gray-400">
+                {country.name}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="space-y-1">
+        {visibleTrips.map((trip) => (
+          <button
+            key={trip.id}
+            onClick={() => onTripSelect(selectedTrip?.id === trip.id ? null : trip.id)}
+            className={`w-full text-left text-xs px-1 py-0.5 rounded transition-colors ${
+              selectedTrip?.id === trip.id ? 'bg-yellow-500/20' : 'hover:bg-gray-800'
+            }`}
+            title={formatTripPath(trip)}
+          >
+            <div className="text-gray-300 truncate">{formatTripPath(trip)}</div>
+            <div className="text-gray-500">
+              {formatFlightDate(trip.startDate)}
+              <span className="text-gray-600 mx-1">•</span>
+              <span className="text-yellow-400">{trip.legs.length}</span>✈
+              <span className="text-gray-600 mx-1">•</span>
+              {trip.totalDistance.toLocaleString()} km
+            </div>
+          </button>
+        ))}
+      </div>
+      {hasMore && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-xs text-purple-400 hover:text-purple-300 transition-colors"
+        >
+          {showAll ? '← Show less' : `Show ${trips.length - INITIAL_VISIBLE} more →`}
+        </button>
+      )}
+    </CollapsibleSection>
+  );
+}
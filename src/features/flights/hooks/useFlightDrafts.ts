@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FlightDraft } from '../types';
+import { loadDrafts, saveDraft, deleteDraft, clearDrafts } from '../utils/draftStore';
+
+// Flight drafts from IndexedDB. Changes apply right away and are persisted in the
+// background; if storage fails they still last until the page is reloaded.
+export function useFlightDrafts() {
+  const [drafts, setDrafts] = useState<FlightDraft[]>([]);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    loadDrafts()
+      .then(setDrafts)
+      .catch((err) => {
+        console.error('Error loading flight drafts', err);
+        setError(err);
+      });
+  }, []);
+
+  const persist = useCallback((write: Promise<void>) => {
+    write.catch((err) => {
+      console.error('Error saving flight drafts', err);
+      setError(err);
+    });
+  }, []);
+
+  const save = useCallback((draft: FlightDraft) => {
+    setDrafts((prev) => prev.some((d) => d.id === draft.id)
+      ? prev.map((d) => (d.id === draft.id ? draft : d))
+      : [...prev, draft]);
+    persist(saveDraft(draft));
+  }, [persist]);
+
+  const remove = useCallback((id: string) => {
+    setDrafts((prev) => prev.filter((d) => d.id !== id));
+    persist(deleteDraft(id));
+  }, [persist]);
+
+  const clear = useCallback(() => {
+    setDrafts([]);
+    persist(clearDrafts());
+  }, [persist]);
+
+  return { drafts, saveDraft: save, removeDraft: remove, clearDrafts: clear, error };
+}
@@ -4,6 +4,7 @@ interface UseKeyboardShortcutsOptions {
   onToggleStats: () => void;
   onToggleFilter: () => void;
   onResetView: () => void;
+  onToggleCompare: () => void;
   onClearSelection: () => void;
   onColorModeChange: (mode: number) => void;
 }
@@ -12,6 +13,7 @@ export function useKeyboardShortcuts({
   onToggleStats,
   onToggleFilter,
   onResetView,
+  onToggleCompare,
   onClearSelection,
   onColorModeChange,
 }: UseKeyboardShortcutsOptions) {
@@ -37,6 +39,9 @@ export function useKeyboardShortcuts({
         case 'r':
           onResetView();
           break;
+        case 'c':
+          onToggleCompare();
+          break;
         case 'escape':
           setShowHelp(false);
           onClearSelection();
@@ -53,12 +58,15 @@ export function useKeyboardShortcuts({
         case '4':
           onColorModeChange(3); // airline
           break;
+        case '5':
+          onColorModeChange(4); // alliance
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [onToggleStats, onToggleFilter, onResetView, onClearSelection, onColorModeChange]);
+  }, [onToggleStats, onToggleFilter, onResetView, onToggleCompare, onClearSelection, onColorModeChange]);
 
   return { showHelp, setShowHelp };
 }
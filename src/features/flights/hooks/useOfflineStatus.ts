@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import type { ServiceWorkerMessage } from '../types';
+
+// Connection state, and whether the service worker has fetched newer flight data
+// than the page is showing (see public/sw.js)
+export function useOfflineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [dataUpdatedAt, setDataUpdatedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handler = (event: MessageEvent<ServiceWorkerMessage>) => {
+      if (event.data?.type === 'flight-data-updated') setDataUpdatedAt(event.data.generatedAt);
+    };
+    navigator.serviceWorker.addEventListener('message', handler);
+    return () => navigator.serviceWorker.removeEventListener('message', handler);
+  }, []);
+
+  return { online, dataUpdatedAt };
+}
@@ -0,0 +1,36 @@
+import { useCallback, useState } from 'react';
+import type { PrivateFlightData } from '../types';
+import { importFlights, loadAirportTable } from '../importers';
+import { buildCollections } from '../utils/collections';
+
+// A flight log file dropped by the visitor. Nothing is uploaded: the file is read
+// and resolved against the airport table in the browser, and kept in memory only.
+export function usePrivateFlightData() {
+  const [data, setData] = useState<PrivateFlightData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = useCallback(async (file: File) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [text, airportTable] = await Promise.all([file.text(), loadAirportTable()]);
+      const result = importFlights(text, airportTable);
+      if (result.flights.length === 0) {
+        throw new Error(result.errors[0] ?? 'No flights found in the file');
+      }
+      setData({ fileName: file.name, result, ...buildCollections(result.flights, airportTable) });
+    } catch (err) {
+      setError(`${file.name}: ${(err as Error).message}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    setData(null);
+    setError(null);
+  }, []);
+
+  return { data, loading, error, loadFile, clear };
+}
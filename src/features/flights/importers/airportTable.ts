@@ -0,0 +1,51 @@
+import type { Airline, AirportAlias, AirportRecord, AirportTable } from '../types';
+import { FLIGHT_DATA_FILES } from '../assets';
+
+let airportTablePromise: Promise<AirportTable> | null = null;
+
+// Load the full airport reference table and airline registry emitted by convertFlights.js
+// (fetched once per session)
+export function loadAirportTable(): Promise<AirportTable> {
+  if (!airportTablePromise) {
+    airportTablePromise = fetch(`${import.meta.env.BASE_URL}data/flights/${FLIGHT_DATA_FILES.airportTable}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json();
+      })
+      .then(({ airports, aliases, airlines }: { airports: AirportRecord[]; aliases: AirportAlias[]; airlines?: Airline[] }) => {
+        // Resolve either code; flights always use the airport's primary code. As in
+        // convertFlights.js the first airport listed keeps a code, so a closed airport
+        // can't take over an ICAO code that has since been reused (EDDB is BER, not SXF).
+        const byCode = new Map<string, AirportRecord>();
+        for (const airport of airports) {
+          for (const code of [airport.code, airport.icaoCode]) {
+            if (code && !byCode.has(code)) byCode.set(code, airport);
+          }
+        }
+        // Tables cached before the registry was added resolve no airlines
+        return { byCode, aliases, airlines: airlines ?? [] };
+      });
+    // Allow a retry after a failed load
+    airportTablePromise.catch(() => {
+      airportTablePromise = null;
+    });
+  }
+  return airportTablePromise;
+}
+
+// The airport a code meant on a "YYYY-MM-DD" date, applying airportHistory.json's aliases like convertFlights.js
+export function findAirport(table: AirportTable, code: string, isoDate: string): AirportRecord | undefined {
+  const alias = table.aliases.find((a) =>
+    a.code === code && (!a.from || isoDate >= a.from) && (!a.until || isoDate <= a.until)
+  );
+  return table.byCode.get(alias ? alias.airport : code);
+}
+
+// Same lookup as convertFlights.js' resolveAirline: name, alias or designator, any case
+export function findAirline(table: AirportTable, name: string): Airline | undefined {
+  const query = name.trim().toLowerCase();
+  if (!query) return undefined;
+  return table.airlines.find((airline) =>
+    [airline.name, ...airline.aliases, airline.iata, airline.icao].some((key) => key && key.toLowerCase() === query)
+  );
+}
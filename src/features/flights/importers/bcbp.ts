@@ -0,0 +1,199 @@
+/**
+ * IATA Bar Coded Boarding Pass (Resolution 792) decoder — the string inside the
+ * PDF417 / Aztec / QR code on a boarding pass, e.g.
+ *
+ *   M1DESMARAIS/LUC       EABC123 YULFRAAC 0834 326J001A0025 100
+ *
+ * Layout (fixed widths):
+ *   M, number of legs (1), passenger name (20), e-ticket indicator (1), then per leg:
+ *   PNR (7), from (3), to (3), carrier (3), flight number (5), Julian date (3),
+ *   compartment (1), seat (4), check-in sequence (5), passenger status (1),
+ *   conditional field size (2, hex), conditional data.
+ *
+ * The first leg's conditional data may carry the date of issue ("YJJJ", last digit
+ * of the year + day of year), which pins down the year of the flight. Without it,
+ * the Julian date is resolved to the occurrence nearest the reference date.
+ */
+
+import type { BoardingPass, BoardingPassLeg, FlightRecord, ParsedFlightRecords } from '../types';
+import { emptyRecord } from './records';
+
+const MS_PER_DAY = 86_400_000;
+const HEADER_LENGTH = 23;
+const LEG_LENGTH = 35; // mandatory leg fields, before the conditional size
+const MAX_LEGS = 4;
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+// Day of year → UTC timestamp, or null if the year doesn't have that day
+function julianToUtc(year: number, julianDate: number): number | null {
+  if (julianDate < 1 || julianDate > (isLeapYear(year) ? 366 : 365)) return null;
+  return Date.UTC(year, 0, 1) + (julianDate - 1) * MS_PER_DAY;
+}
+
+function toIsoDate(utc: number): string {
+  return new Date(utc).toISOString().slice(0, 10);
+}
+
+function parseHex(value: string): number | null {
+  return /^[0-9A-Fa-f]{2}$/.test(value) ? parseInt(value, 16) : null;
+}
+
+// "YJJJ" date of issue → full date, taking the latest matching year not after the reference
+function resolveIssueDate(value: string, reference: Date): number | null {
+  const match = /^(\d)(\d{3})$/.exec(value);
+  if (!match) return null;
+  const referenceYear = reference.getUTCFullYear();
+  let year = referenceYear - ((referenceYear - Number(match[1])) % 10 + 10) % 10;
+  let utc = julianToUtc(year, Number(match[2]));
+  // A pass can be issued a little ahead of today's date in another time zone
+  if (utc !== null && utc > reference.getTime() + MS_PER_DAY) {
+    year -= 10;
+    utc = julianToUtc(year, Number(match[2]));
+  }
+  return utc;
+}
+
+function resolveFlightDate(julianDate: number, issueUtc: number | null, reference: Date): number | null {
+  if (issueUtc !== null) {
+    // Flight is on or after the day the pass was issued
+    const issueYear = new Date(issueUtc).getUTCFullYear();
+    const sameYear = julianToUtc(issueYear, julianDate);
+    if (sameYear !== null && sameYear >= issueUtc - MS_PER_DAY) return sameYear;
+    return julianToUtc(issueYear + 1, julianDate);
+  }
+
+  // Nearest occurrence to the reference date
+  const referenceYear = reference.getUTCFullYear();
+  let best: number | null = null;
+  for (const year of [referenceYear - 1, referenceYear, referenceYear + 1]) {
+    const utc = julianToUtc(year, julianDate);
+    if (utc === null) continue;
+    if (best === null || Math.abs(utc - reference.getTime()) < Math.abs(best - reference.getTime())) {
+      best = utc;
+    }
+  }
+  return best;
+}
+
+// "0123 " → "123", "0045A" → "45A"
+function formatFlightNumber(carrier: string, value: string): string {
+  const match = /^0*(\d+)([A-Z]?)\s*$/.exec(value);
+  return match ? `${carrier} ${match[1]}${match[2]}` : `${carrier} ${value.trim()}`;
+}
+
+/**
+ * Decode a single boarding pass barcode string. Throws with a description of the
+ * first malformed field.
+ */
+export function decodeBoardingPass(data: string, reference: Date = new Date()): BoardingPass {
+  if (data[0] !== 'M') {
+    throw new Error(`Unsupported format code "${data[0] ?? ''}" (expected "M")`);
+  }
+  const legCount = Number(data[1]);
+  if (!Number.isInteger(legCount) || legCount < 1 || legCount > MAX_LEGS) {
+    throw new Error(`Invalid number of legs "${data[1] ?? ''}"`);
+  }
+  if (data.length < HEADER_LENGTH + LEG_LENGTH + 2) {
+    throw new Error(`Too short for a boarding pass (${data.length} characters)`);
+  }
+
+  const passengerName = data.slice(2, 22).trim();
+  const electronicTicket = data[22] === 'E';
+
+  const rawLegs: Omit<BoardingPassLeg, 'date'>[] = [];
+  let firstConditional = '';
+  let pos = HEADER_LENGTH;
+  for (let i = 0; i < legCount; i++) {
+    const legNumber = i + 1;
+    const mandatory = data.slice(pos, pos + LEG_LENGTH);
+    if (mandatory.length < LEG_LENGTH) {
+      throw new Error(`Leg ${legNumber}: truncated (expected ${legCount} legs)`);
+    }
+
+    const origin = mandatory.slice(7, 10).trim();
+    const destination = mandatory.slice(10, 13).trim();
+    const carrier = mandatory.slice(13, 16).trim();
+    const julianText = mandatory.slice(21, 24);
+    if (!/^[A-Z]{3}$/.test(origin) || !/^[A-Z]{3}$/.test(destination)) {
+      throw new Error(`Leg ${legNumber}: invalid airport codes "${origin}" / "${destination}"`);
+    }
+    if (!/^\d{3}$/.test(julianText) || Number(julianText) < 1 || Number(julianText) > 366) {
+      throw new Error(`Leg ${legNumber}: invalid Julian date "${julianText}"`);
+    }
+
+    pos += LEG_LENGTH;
+    const conditionalSize = parseHex(data.slice(pos, pos + 2));
+    if (conditionalSize === null) {
+      throw new Error(`Leg ${legNumber}: invalid conditional field size "${data.slice(pos, pos + 2)}"`);
+    }
+    pos += 2;
+    if (i === 0) firstConditional = data.slice(pos, pos + conditionalSize);
+    pos += conditionalSize;
+
+    rawLegs.push({
+      pnr: mandatory.slice(0, 7).trim(),
+      origin,
+      destination,
+      carrier,
+      flightNumber: formatFlightNumber(carrier, mandatory.slice(16, 21)),
+      julianDate: Number(julianText),
+      compartment: mandatory.slice(24, 25).trim(),
+      seat: mandatory.slice(25, 29).trim().replace(/^0+(?=\d)/, ''),
+      sequenceNumber: mandatory.slice(29, 34).trim(),
+      passengerStatus: mandatory.slice(34, 35).trim(),
+    });
+  }
+
+  // Unique conditional items: ">" + version (1) + size (2, hex) + passenger description (1)
+  // + source of check-in (1) + source of issuance (1) + date of issue (4) + ...
+  let issueUtc: number | null = null;
+  if (firstConditional[0] === '>') {
+    const uniqueSize = parseHex(firstConditional.slice(2, 4));
+    const unique = firstConditional.slice(4, 4 + (uniqueSize ?? 0));
+    if (unique.length >= 7) issueUtc = resolveIssueDate(unique.slice(3, 7), reference);
+  }
+
+  const legs = rawLegs.map((leg, i) => {
+    const utc = resolveFlightDate(leg.julianDate, issueUtc, reference);
+    if (utc === null) throw new Error(`Leg ${i + 1}: Julian date ${leg.julianDate} doesn't exist in the resolved year`);
+    return { ...leg, date: toIsoDate(utc) };
+  });
+
+  return {
+    passengerName,
+    electronicTicket,
+    issueDate: issueUtc !== null ? toIsoDate(issueUtc) : null,
+    legs,
+  };
+}
+
+// One boarding pass per line; each leg becomes a flight record. Rows are line numbers.
+export function parseBoardingPasses(text: string, reference: Date = new Date()): ParsedFlightRecords {
+  const records: FlightRecord[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const data = line.trim();
+    if (!data) return;
+    const row = index + 1;
+    try {
+      decodeBoardingPass(data, reference).legs.forEach((leg) => {
+        records.push({
+          ...emptyRecord(row),
+          date: leg.date,
+          airline: leg.carrier,
+          flightNumber: leg.flightNumber,
+          origin: leg.origin,
+          destination: leg.destination,
+        });
+      });
+    } catch (err) {
+      errors.push(`Row ${row}: ${(err as Error).message}`);
+    }
+  });
+
+  return { records, errors, warnings: [] };
+}
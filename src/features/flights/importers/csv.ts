@@ -0,0 +1,71 @@
+interface ParsedCSVRow {
+  cells: string[];
+  line: number; // 1-indexed line the row starts on
+}
+
+// Split CSV text into non-blank rows, handling quoted fields (including embedded newlines) and a leading BOM
+function parseCSVRows(text: string): ParsedCSVRow[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: ParsedCSVRow[] = [];
+  let row: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    // Count every line break, quoted or not, so rows keep their line in the file ("\r\n" is one)
+    const lineBreak = char === '\r' || (char === '\n' && input[i - 1] !== '\r');
+
+    if (char === '"') {
+      if (inQuotes && input[i + 1] === '"') {
+        current += '"';
+        i++; // Skip escaped quote
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      row.push(current);
+      current = '';
+    } else if ((char === '\n' || char === '\r') && !inQuotes) {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(current);
+      if (row.some((cell) => cell.trim())) rows.push({ cells: row, line: rowLine });
+      row = [];
+      current = '';
+      rowLine = line + 1;
+    } else {
+      current += char;
+    }
+    if (lineBreak) line++;
+  }
+  row.push(current);
+  if (row.some((cell) => cell.trim())) rows.push({ cells: row, line: rowLine });
+
+  return rows;
+}
+
+// Parse CSV text into rows of cells
+export function parseCSV(text: string): string[][] {
+  return parseCSVRows(text).map(({ cells }) => cells);
+}
+
+export interface CSVRow {
+  row: number; // 1-indexed line in the file the row starts on (the header is usually line 1)
+  values: Record<string, string>;
+}
+
+// Key each data row by its (trimmed, lowercased) header
+export function parseCSVWithHeader(text: string): { header: string[]; rows: CSVRow[] } {
+  const [headerRow, ...dataRows] = parseCSVRows(text);
+  const header = (headerRow?.cells ?? []).map((h) => h.trim().toLowerCase());
+  const rows = dataRows.map(({ cells, line }) => {
+    const values: Record<string, string> = {};
+    header.forEach((key, col) => {
+      values[key] = (cells[col] ?? '').trim();
+    });
+    return { row: line, values };
+  });
+  return { header, rows };
+}
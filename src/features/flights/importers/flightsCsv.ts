@@ -0,0 +1,45 @@
+/**
+ * flights.csv itself (the sheet sync-flights.js downloads), so a visitor can drop
+ * their own log in the same format. Column names are matched like sync-flights'
+ * runQAQC: case-insensitive, with spaced and snake_case variants.
+ *
+ *   date,airline,flightNumber,origin,destination,notes,departureTime,arrivalTime,trip,traveler
+ *   6/15/2008,United Airlines,UA 1234,LAX,IAH,,08:05,13:40,,
+ */
+
+import type { ParsedFlightRecords } from '../types';
+import { parseCSVWithHeader } from './csv';
+import { emptyRecord } from './records';
+
+const REQUIRED_COLUMNS = ['date', 'origin', 'destination'];
+
+function column(values: Record<string, string>, ...keys: string[]): string {
+  for (const key of keys) {
+    if (values[key] !== undefined) return values[key];
+  }
+  return '';
+}
+
+export function parseFlightsCSV(text: string): ParsedFlightRecords {
+  const { header, rows } = parseCSVWithHeader(text);
+  const missing = REQUIRED_COLUMNS.filter((name) => !header.includes(name));
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.join(', ')}`], warnings: [] };
+  }
+
+  const records = rows.map(({ row, values }) => ({
+    ...emptyRecord(row),
+    date: values.date,
+    airline: column(values, 'airline'),
+    flightNumber: column(values, 'flightnumber', 'flight number', 'flight_number'),
+    origin: values.origin,
+    destination: values.destination,
+    notes: column(values, 'notes'),
+    departureTime: column(values, 'departuretime', 'departure time', 'departure_time'),
+    arrivalTime: column(values, 'arrivaltime', 'arrival time', 'arrival_time'),
+    trip: column(values, 'trip'),
+    traveler: column(values, 'traveler', 'traveller'),
+  }));
+
+  return { records, errors: [], warnings: [] };
+}
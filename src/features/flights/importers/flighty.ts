@@ -0,0 +1,60 @@
+/**
+ * Flighty CSV export (Flighty → Settings → Export Flights).
+ *
+ *   Date,Airline,Flight,From,To,...,Canceled,Diverted To,Gate Departure (Scheduled),Gate Departure (Actual),...,Gate Arrival (Scheduled),Gate Arrival (Actual),...,Notes,...
+ *   2023-05-01,UAL,1234,LAX,JFK,...,false,,2023-05-01T07:15,2023-05-01T07:22,...
+ *
+ * Airline is an ICAO designator and Flight the bare number. Gate times are local
+ * ISO date-times; actual times win over scheduled ones. Canceled flights are
+ * skipped and diverted flights end at the airport they actually landed at.
+ */
+
+import type { FlightRecord, ParsedFlightRecords } from '../types';
+import { parseFlightDate } from '../utils/dates';
+import { parseCSVWithHeader } from './csv';
+import { emptyRecord, toLocalTime } from './records';
+
+const REQUIRED_COLUMNS = ['date', 'airline', 'flight', 'from', 'to'];
+
+export function parseFlighty(text: string): ParsedFlightRecords {
+  const { header, rows } = parseCSVWithHeader(text);
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.join(', ')}`], warnings: [] };
+  }
+
+  const records: FlightRecord[] = [];
+  const warnings: string[] = [];
+
+  rows.forEach(({ row, values }) => {
+    if (values.canceled?.toLowerCase() === 'true') {
+      warnings.push(`Row ${row}: Skipped canceled flight ${values.airline}${values.flight} (${values.from} → ${values.to})`);
+      return;
+    }
+
+    let destination = values.to;
+    const divertedTo = values['diverted to'];
+    if (divertedTo) {
+      warnings.push(`Row ${row}: Flight diverted to ${divertedTo}, using it as the destination`);
+      destination = divertedTo;
+    }
+
+    const departure = values['gate departure (actual)'] || values['gate departure (scheduled)'] || '';
+    const arrival = values['gate arrival (actual)'] || values['gate arrival (scheduled)'] || '';
+    const baseDate = parseFlightDate(departure.slice(0, 10)) ?? parseFlightDate(values.date);
+
+    records.push({
+      ...emptyRecord(row),
+      date: values.date,
+      airline: values.airline,
+      flightNumber: values.flight ? `${values.airline}${values.flight}` : '',
+      origin: values.from,
+      destination,
+      departureTime: departure ? toLocalTime(departure) : '',
+      arrivalTime: arrival ? toLocalTime(arrival, baseDate) : '',
+      notes: values.notes ?? '',
+    });
+  });
+
+  return { records, errors: [], warnings };
+}
@@ -0,0 +1,205 @@
+/**
+ * iCalendar (.ics) import — airline confirmations and calendar exports.
+ *
+ * Each VEVENT is searched (SUMMARY, then LOCATION, then DESCRIPTION) for a route
+ * between two airport codes, e.g. "UA 123 SFO → EWR", "UA123 SFO to EWR" or
+ * "SFO-EWR", plus an optional flight number. DTSTART/DTEND become local
+ * departure/arrival times at each airport: UTC and TZID times are converted using
+ * the airports' time zones, floating times are taken as already local.
+ *
+ * Row numbers in messages are the event's position in the file (1-based).
+ */
+
+import type { AirportTable, CalendarEventResult, FlightRecord, ParsedFlightRecords } from '../types';
+import { parseFlightDate, isValidTimeZone, zonedTimeToUtc, toLocal } from '../utils/dates';
+import { emptyRecord } from './records';
+
+interface CalendarProperty {
+  value: string;
+  params: Record<string, string>;
+}
+
+type CalendarEvent = Record<string, CalendarProperty>;
+
+// Airport pair joined by an arrow, dash or "to"
+const ROUTE = /\b([A-Z]{3})\s*(?:→|->|—|–|-|>|✈️?|\s[Tt][Oo]\s)\s*([A-Z]{3})\b/g;
+// Airline designator + number, e.g. "UA 123", "UA123", "U2 4567", "BAW 12A"
+const FLIGHT_NUMBER = /\b([A-Z][A-Z0-9]|[0-9][A-Z]|[A-Z]{3})\s?(\d{1,4}[A-Z]?)\b/;
+const ICS_DATE_TIME = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(?:\d{2})?(Z)?)?$/;
+
+const MS_PER_DAY = 86_400_000;
+
+// Undo RFC 5545 line folding (CRLF followed by a space or tab)
+function unfold(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// "DTSTART;TZID=America/New_York:20240305T143000" → name, params, value
+function parseLine(line: string): { name: string; property: CalendarProperty } | null {
+  const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  if (colon === -1) return null;
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), property: { value: line.slice(colon + 1), params } };
+}
+
+function parseEvents(text: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: CalendarEvent | null = null;
+
+  unfold(text).forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+    } else if (line === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      const parsed = parseLine(line);
+      // Keep the first occurrence of each property
+      if (parsed && !current[parsed.name]) current[parsed.name] = parsed.property;
+    }
+  });
+
+  return events;
+}
+
+// Find the first route in the text, preferring one where both codes are known airports
+function findRoute(text: string, airports: AirportTable): { origin: string; destination: string } | null {
+  let fallback: { origin: string; destination: string } | null = null;
+  for (const match of text.matchAll(ROUTE)) {
+    const route = { origin: match[1], destination: match[2] };
+    if (airports.byCode.has(route.origin) && airports.byCode.has(route.destination)) return route;
+    fallback ??= route;
+  }
+  return fallback;
+}
+
+function findFlightNumber(text: string, exclude: string[]): string {
+  // Blank out the airport codes so "SFO 1" style fragments can't match
+  const masked = exclude.reduce((acc, code) => acc.replaceAll(code, ' '.repeat(code.length)), text);
+  const match = FLIGHT_NUMBER.exec(masked);
+  return match ? `${match[1]} ${match[2]}` : '';
+}
+
+/**
+ * Resolve an ICS date/time to the local date and clock time at an airport.
+ * Returns null if the value can't be parsed.
+ */
+function toAirportLocal(
+  property: CalendarProperty,
+  airportZone: string
+): { date: string; time: string; dayNumber: number } | null {
+  const match = ICS_DATE_TIME.exec(property.value.trim());
+  if (!match) return null;
+  const [, y, m, d, hh, mm, utc] = match;
+  const date = `${y}-${m}-${d}`;
+  const dayNumber = parseFlightDate(date)?.dayNumber;
+  if (dayNumber === undefined) return null;
+  if (hh === undefined) return { date, time: '', dayNumber };
+
+  const hour = Number(hh);
+  const minute = Number(mm);
+  const tzid = property.params.TZID;
+  let utcMs: number | null = null;
+  if (utc) {
+    utcMs = dayNumber * MS_PER_DAY + (hour * 60 + minute) * 60_000;
+  } else if (tzid && isValidTimeZone(tzid)) {
+    utcMs = zonedTimeToUtc(dayNumber, hour, minute, tzid);
+  }
+
+  // Floating time, or no zone known for the airport: take the clock time as local
+  if (utcMs === null || !airportZone) {
+    return { date, time: `${hh}:${mm}`, dayNumber };
+  }
+
+  const local = toLocal(utcMs, airportZone);
+  return {
+    date: local.date,
+    time: `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`,
+    dayNumber: local.dayNumber,
+  };
+}
+
+export function parseCalendar(text: string, airports: AirportTable): ParsedFlightRecords {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    return { records: [], errors: ['Not an iCalendar file (missing BEGIN:VCALENDAR)'], warnings: [], events: [] };
+  }
+
+  const records: FlightRecord[] = [];
+  const warnings: string[] = [];
+  const events: CalendarEventResult[] = [];
+
+  parseEvents(text).forEach((event, index) => {
+    const row = index + 1;
+    const summary = unescapeText(event.SUMMARY?.value ?? '').trim();
+    const start = event.DTSTART?.value ?? '';
+    const skip = (reason: string) => {
+      events.push({ row, summary, start, recognized: false, reason });
+      warnings.push(`Row ${row}: Skipped event "${summary || '(untitled)'}" - ${reason}`);
+    };
+
+    if (event.STATUS?.value.toUpperCase() === 'CANCELLED') {
+      skip('Event is cancelled');
+      return;
+    }
+
+    const fields = [event.SUMMARY, event.LOCATION, event.DESCRIPTION]
+      .filter((property): property is CalendarProperty => !!property)
+      .map((property) => unescapeText(property.value));
+    let route: ReturnType<typeof findRoute> = null;
+    let routeText = '';
+    for (const field of fields) {
+      route = findRoute(field, airports);
+      if (route) {
+        routeText = field;
+        break;
+      }
+    }
+    if (!route) {
+      skip('No flight route found');
+      return;
+    }
+    if (!event.DTSTART) {
+      skip('Missing start time');
+      return;
+    }
+
+    const originZone = airports.byCode.get(route.origin)?.timeZone ?? '';
+    const destinationZone = airports.byCode.get(route.destination)?.timeZone ?? '';
+    const departure = toAirportLocal(event.DTSTART, originZone);
+    if (!departure) {
+      skip(`Unparseable start time "${start}"`);
+      return;
+    }
+    const arrival = event.DTEND && departure.time ? toAirportLocal(event.DTEND, destinationZone) : null;
+    const dayOffset = arrival ? arrival.dayNumber - departure.dayNumber : 0;
+
+    // Flight number: same field as the route first, then anywhere in the event
+    const flightNumber =
+      findFlightNumber(routeText, [route.origin, route.destination]) ||
+      fields.map((field) => findFlightNumber(field, [route.origin, route.destination])).find(Boolean) ||
+      '';
+
+    records.push({
+      ...emptyRecord(row),
+      date: departure.date,
+      airline: flightNumber.split(' ')[0] ?? '',
+      flightNumber,
+      origin: route.origin,
+      destination: route.destination,
+      departureTime: departure.time,
+      arrivalTime: arrival?.time ? `${arrival.time}${dayOffset > 0 ? `+${dayOffset}` : ''}` : '',
+    });
+    events.push({ row, summary, start, recognized: true, reason: '' });
+  });
+
+  return { records, errors: [], warnings, events };
+}
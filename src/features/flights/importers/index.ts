@@ -0,0 +1,64 @@
+/**
+ * Importers for flight logs kept in other trackers. Each format parser turns its
+ * export into flights.csv-shaped records; convertRecords then validates them and
+ * resolves airports and airlines through the same tables convertFlights.js uses,
+ * producing FlightProperties ready for the globe.
+ */
+
+import type { AirportTable, ImportFormat, ImportResult, ParsedFlightRecords } from '../types';
+import { parseCSV } from './csv';
+import { convertRecords } from './records';
+import { parseOpenFlights } from './openflights';
+import { parseMyFlightradar24 } from './myflightradar24';
+import { parseFlighty } from './flighty';
+import { parseFlightsJSON } from './json';
+import { parseFlightsCSV } from './flightsCsv';
+import { parseBoardingPasses } from './bcbp';
+import { parseCalendar } from './ics';
+
+export { loadAirportTable } from './airportTable';
+export { decodeBoardingPass } from './bcbp';
+
+const PARSERS: Record<ImportFormat, (text: string, airports: AirportTable) => ParsedFlightRecords> = {
+  openflights: parseOpenFlights,
+  myflightradar24: parseMyFlightradar24,
+  flighty: parseFlighty,
+  json: parseFlightsJSON,
+  'flights-csv': parseFlightsCSV,
+  bcbp: (text) => parseBoardingPasses(text),
+  ics: parseCalendar,
+};
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  openflights: 'OpenFlights CSV',
+  myflightradar24: 'myFlightradar24 CSV',
+  flighty: 'Flighty CSV',
+  json: 'JSON',
+  'flights-csv': 'flights.csv',
+  bcbp: 'Boarding pass (BCBP)',
+  ics: 'Calendar (.ics)',
+};
+
+// Guess the export format from its content (JSON shape or the CSV header)
+export function detectImportFormat(text: string): ImportFormat | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  if (/^BEGIN:VCALENDAR/i.test(trimmed)) return 'ics';
+  if (/^M[1-4].{20}[E ]/.test(trimmed)) return 'bcbp';
+
+  const header = (parseCSV(trimmed.split(/\r?\n/, 1)[0] ?? '')[0] ?? []).map((h) => h.trim().toLowerCase());
+  if (header.includes('from_oid') || header.includes('flight_number')) return 'openflights';
+  if (header.includes('dep_id') || (header.includes('flight number') && header.includes('dep time'))) return 'myflightradar24';
+  if (header.includes('gate departure (scheduled)') || header.includes('flight flighty id')) return 'flighty';
+  if (header.includes('date') && header.includes('origin') && header.includes('destination')) return 'flights-csv';
+  return null;
+}
+
+// Import a flight log export, detecting the format unless one is given
+export function importFlights(text: string, airports: AirportTable, format?: ImportFormat): ImportResult {
+  const resolvedFormat = format ?? detectImportFormat(text);
+  if (!resolvedFormat) {
+    throw new Error('Unrecognized flight log format (expected flights.csv, OpenFlights, myFlightradar24 or Flighty CSV, JSON, a calendar file, or a boarding pass)');
+  }
+  return convertRecords(resolvedFormat, PARSERS[resolvedFormat](text, airports), airports);
+}
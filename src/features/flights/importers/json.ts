@@ -0,0 +1,62 @@
+/**
+ * Generic JSON: an array of flights (or `{ "flights": [...] }`) using the
+ * flights.csv column names. `from`/`to`, `note` and `tripId` are accepted as
+ * aliases. Row numbers in messages are 1-based positions in the array.
+ *
+ *   [{ "date": "2019-05-12", "airline": "United Airlines", "flightNumber": "UA 1234", "origin": "LAX", "destination": "JFK" }]
+ */
+
+import type { FlightRecord, ParsedFlightRecords } from '../types';
+import { emptyRecord } from './records';
+
+function field(item: Record<string, unknown>, ...keys: string[]): string {
+  for (const key of keys) {
+    const value = item[key];
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number') return String(value);
+  }
+  return '';
+}
+
+export function parseFlightsJSON(text: string): ParsedFlightRecords {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { records: [], errors: [`Invalid JSON: ${(err as Error).message}`], warnings: [] };
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : (data as { flights?: unknown })?.flights;
+  if (!Array.isArray(items)) {
+    return { records: [], errors: ['Expected an array of flights or an object with a "flights" array'], warnings: [] };
+  }
+
+  const records: FlightRecord[] = [];
+  const errors: string[] = [];
+
+  items.forEach((item: unknown, index) => {
+    const row = index + 1;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push(`Row ${row}: Not a flight object`);
+      return;
+    }
+    const entry = item as Record<string, unknown>;
+    records.push({
+      ...emptyRecord(row),
+      date: field(entry, 'date'),
+      airline: field(entry, 'airline'),
+      flightNumber: field(entry, 'flightNumber', 'flight_number'),
+      origin: field(entry, 'origin', 'from'),
+      destination: field(entry, 'destination', 'to'),
+      notes: field(entry, 'notes', 'note'),
+      departureTime: field(entry, 'departureTime', 'departure_time'),
+      arrivalTime: field(entry, 'arrivalTime', 'arrival_time'),
+      trip: field(entry, 'trip', 'tripId'),
+      traveler: field(entry, 'traveler'),
+    });
+  });
+
+  return { records, errors, warnings: [] };
+}
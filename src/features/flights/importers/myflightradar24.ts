@@ -0,0 +1,43 @@
+/**
+ * myFlightradar24 CSV export (my.flightradar24.com → Settings → Export).
+ *
+ *   Date,Flight number,From,To,Dep time,Arr time,Duration,Airline,Aircraft,Registration,Seat number,Seat type,Flight class,Flight reason,Note,Dep_id,Arr_id,Airline_id,Aircraft_id
+ *   2019-05-12,UA1234,Los Angeles / Los Angeles International (LAX/KLAX),New York / John F. Kennedy International (JFK/KJFK),07:15:00,15:40:00,...
+ *
+ * Airports and airlines carry their designators in parentheses; the IATA code is
+ * used where present, falling back to ICAO.
+ */
+
+import type { ParsedFlightRecords } from '../types';
+import { parseCSVWithHeader } from './csv';
+import { emptyRecord, splitDesignators, toLocalTime } from './records';
+
+const REQUIRED_COLUMNS = ['date', 'from', 'to'];
+
+// "(LAX/KLAX)" → "LAX"; "(/KXYZ)" → "KXYZ"
+function airportCode(value: string): string {
+  const { name, codes } = splitDesignators(value);
+  return codes.find((code) => code.length === 3) ?? codes[0] ?? name;
+}
+
+export function parseMyFlightradar24(text: string): ParsedFlightRecords {
+  const { header, rows } = parseCSVWithHeader(text);
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.join(', ')}`], warnings: [] };
+  }
+
+  const records = rows.map(({ row, values }) => ({
+    ...emptyRecord(row),
+    date: values.date,
+    airline: splitDesignators(values.airline ?? '').name,
+    flightNumber: values['flight number'] ?? '',
+    origin: airportCode(values.from),
+    destination: airportCode(values.to),
+    departureTime: toLocalTime(values['dep time'] ?? ''),
+    arrivalTime: toLocalTime(values['arr time'] ?? ''),
+    notes: values.note ?? '',
+  }));
+
+  return { records, errors: [], warnings: [] };
+}
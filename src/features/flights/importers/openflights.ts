@@ -0,0 +1,40 @@
+/**
+ * OpenFlights CSV export (openflights.org → Settings → Export → CSV).
+ *
+ *   Date,From,To,Flight_Number,Airline,Distance,Duration,Seat,Seat_Type,Class,Reason,Plane,Registration,Trip,Note,From_OID,To_OID,Airline_OID,Plane_OID
+ *   2019-05-12 07:15:00,LAX,JFK,UA 1234,United Airlines,...
+ *
+ * From/To are IATA codes (ICAO where the airport has none). Trip is OpenFlights'
+ * numeric trip id, kept as an explicit trip so its legs group together.
+ */
+
+import type { ParsedFlightRecords } from '../types';
+import { parseCSVWithHeader } from './csv';
+import { emptyRecord, splitDesignators, toLocalTime } from './records';
+
+const REQUIRED_COLUMNS = ['date', 'from', 'to'];
+
+export function parseOpenFlights(text: string): ParsedFlightRecords {
+  const { header, rows } = parseCSVWithHeader(text);
+  const missing = REQUIRED_COLUMNS.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    return { records: [], errors: [`Missing column(s): ${missing.join(', ')}`], warnings: [] };
+  }
+
+  const records = rows.map(({ row, values }) => {
+    const [date, time = ''] = values.date.split(/[T ]/);
+    return {
+      ...emptyRecord(row),
+      date,
+      departureTime: time ? toLocalTime(time) : '',
+      airline: splitDesignators(values.airline ?? '').name,
+      flightNumber: values.flight_number ?? '',
+      origin: values.from,
+      destination: values.to,
+      notes: values.note ?? '',
+      trip: values.trip ? `openflights-${values.trip}` : '',
+    };
+  });
+
+  return { records, errors: [], warnings: [] };
+}
@@ -0,0 +1,255 @@
+import type {
+  Airline,
+  AirportRecord,
+  AirportTable,
+  FlightDate,
+  FlightProperties,
+  FlightRecord,
+  ImportFormat,
+  ImportResult,
+  ParsedFlightRecords,
+} from '../types';
+import { parseFlightDate, parseLocalTime, computeFlightTiming } from '../utils/dates';
+import { findAirline, findAirport } from './airportTable';
+
+// IATA/ICAO code, or an OurAirports ident for strips with neither (e.g. SA10, AR-0767)
+const AIRPORT_CODE = /^([A-Z0-9]{3,4}|[A-Z]{2}-[A-Z0-9]{3,5})$/;
+
+// Same date bounds as sync-flights' validateDate
+const MIN_YEAR = 1990;
+
+// Flight record with every column empty, for importers to fill in
+export function emptyRecord(row: number): FlightRecord {
+  return {
+    row,
+    date: '',
+    airline: '',
+    flightNumber: '',
+    origin: '',
+    destination: '',
+    notes: '',
+    departureTime: '',
+    arrivalTime: '',
+    trip: '',
+    traveler: '',
+  };
+}
+
+function validateDate(value: string): { date: FlightDate | null; error?: string } {
+  if (!value) return { date: null, error: 'Empty date' };
+  const date = parseFlightDate(value);
+  if (!date) return { date: null, error: `Invalid format: "${value}" (expected M/D/YYYY or YYYY-MM-DD)` };
+  if (date.year < MIN_YEAR) return { date: null, error: `Year too old (${date.year}): "${value}"` };
+
+  // Allow flights up to 1 year in the future (for booked flights)
+  const now = new Date();
+  const oneYearFromNow = Date.UTC(now.getFullYear() + 1, now.getMonth(), now.getDate());
+  if (date.dayNumber * 86_400_000 > oneYearFromNow) {
+    return { date: null, error: `Date too far in future (${date.year}): "${value}" - likely a typo` };
+  }
+  return { date };
+}
+
+// Aliases only apply once the flight's date is known
+function resolveAirport(
+  code: string,
+  airports: AirportTable,
+  flightDate: FlightDate | null
+): { airport: AirportRecord | null; error?: string } {
+  if (!code) return { airport: null, error: 'Empty airport code' };
+  if (!AIRPORT_CODE.test(code)) return { airport: null, error: `Invalid airport code: "${code}"` };
+  const airport = flightDate ? findAirport(airports, code, flightDate.iso.slice(0, 10)) : airports.byCode.get(code);
+  if (!airport) return { airport: null, error: `Unknown airport code: "${code}"` };
+  return { airport };
+}
+
+// Alliance the airline belonged to on the day, as in convertFlights.js' allianceOn
+function allianceOn(airline: Airline, isoDate: string): FlightProperties['alliance'] {
+  const membership = airline.alliances.find((m) => (!m.from || isoDate >= m.from) && (!m.until || isoDate <= m.until));
+  return membership ? membership.alliance : '';
+}
+
+// Same property layout convertFlights.js writes into flights.geojson. Airlines not in
+// the registry keep their name as written, without designators or alliance.
+function buildFlightProperties(
+  id: number,
+  record: FlightRecord,
+  flightDate: FlightDate,
+  origin: AirportRecord,
+  destination: AirportRecord,
+  airline: Airline | undefined
+): FlightProperties {
+  const flight: FlightProperties = {
+    id,
+    date: record.date,
+    airline: airline ? airline.name : record.airline,
+    airlineIata: airline?.iata ?? '',
+    airlineIcao: airline?.icao ?? '',
+    alliance: airline ? allianceOn(airline, flightDate.iso.slice(0, 10)) : '',
+    flightNumber: record.flightNumber,
+    notes: record.notes,
+    flightDate,
+    departureTime: record.departureTime,
+    arrivalTime: record.arrivalTime,
+    timing: null,
+    tripId: record.trip,
+    traveler: record.traveler.trim(),
+    origin_code: origin.code,
+    origin_name: origin.name,
+    origin_municipality: origin.municipality,
+    origin_region: origin.region,
+    origin_regionName: origin.regionName,
+    origin_country: origin.country,
+    origin_countryName: origin.countryName,
+    origin_continent: origin.continent,
+    origin_continentName: origin.continentName,
+    origin_lon: origin.lon,
+    origin_lat: origin.lat,
+    origin_timeZone: origin.timeZone,
+    destination_code: destination.code,
+    destination_name: destination.name,
+    destination_municipality: destination.municipality,
+    destination_region: destination.region,
+    destination_regionName: destination.regionName,
+    destination_country: destination.country,
+    destination_countryName: destination.countryName,
+    destination_continent: destination.continent,
+    destination_continentName: destination.continentName,
+    destination_lon: destination.lon,
+    destination_lat: destination.lat,
+    destination_timeZone: destination.timeZone,
+  };
+  flight.timing = computeFlightTiming(flight);
+  return flight;
+}
+
+export interface CheckedRecord {
+  flight: FlightProperties | null; // null when the record has errors
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Check one record with sync-flights' runQAQC rules and build its flight. Messages
+ * have no row prefix. Importers are lenient about times (a bad time only loses the
+ * timing); with `strictTimes` it's an error, as in runQAQC.
+ */
+export function checkRecord(raw: FlightRecord, airports: AirportTable, id: number, strictTimes = false): CheckedRecord {
+  const record: FlightRecord = {
+    ...raw,
+    origin: raw.origin.trim().toUpperCase(),
+    destination: raw.destination.trim().toUpperCase(),
+    flightNumber: raw.flightNumber.trim().toUpperCase(),
+  };
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const { date: flightDate, error: dateError } = validateDate(record.date.trim());
+  if (dateError) errors.push(dateError);
+
+  const { airport: origin, error: originError } = resolveAirport(record.origin, airports, flightDate);
+  if (originError) errors.push(`Origin - ${originError}`);
+
+  const { airport: destination, error: destinationError } = resolveAirport(record.destination, airports, flightDate);
+  if (destinationError) errors.push(`Destination - ${destinationError}`);
+
+  if (record.origin && record.origin === record.destination) {
+    errors.push(`Origin and destination are the same (${record.origin})`);
+  }
+
+  for (const [key, label] of [['departureTime', 'Departure'], ['arrivalTime', 'Arrival']] as const) {
+    if (record[key] && !parseLocalTime(record[key])) {
+      if (strictTimes) {
+        errors.push(`${label} - Invalid time: "${record[key]}" (expected HH:MM)`);
+      } else {
+        // Bad times only lose the timing, the flight itself is still usable
+        warnings.push(`${label} - Invalid time: "${record[key]}" (ignored)`);
+        record[key] = '';
+      }
+    }
+  }
+
+  if (errors.length > 0 || !flightDate || !origin || !destination) {
+    return { flight: null, errors: errors.length > 0 ? errors : ['Invalid flight'], warnings: [] };
+  }
+
+  if (!record.airline) {
+    warnings.unshift('Empty airline name');
+  }
+
+  const airline = findAirline(airports, record.airline);
+  return { flight: buildFlightProperties(id, record, flightDate, origin, destination, airline), errors, warnings };
+}
+
+// Same-flight key for duplicate warnings: date and route, per traveler
+export function duplicateKey(flight: FlightProperties): string {
+  return `${flight.flightDate.iso.slice(0, 10)}|${flight.origin_code}|${flight.destination_code}|${flight.traveler}`;
+}
+
+/**
+ * Validate flights.csv-shaped records and resolve them against the airport table.
+ * Checks mirror sync-flights' runQAQC: rows with errors are skipped, warnings are
+ * informational. Unknown airports are errors since the flight can't be placed.
+ */
+export function convertRecords(
+  format: ImportFormat,
+  parsed: ParsedFlightRecords,
+  airports: AirportTable
+): ImportResult {
+  const errors = [...parsed.errors];
+  const warnings = [...parsed.warnings];
+  const flights: FlightProperties[] = [];
+  const seenFlights = new Map<string, number>(); // For duplicate detection
+  const rejectedRows = new Map<number, string>(); // First error per skipped row
+
+  parsed.records.forEach((record) => {
+    const checked = checkRecord(record, airports, flights.length + 1);
+    checked.errors.forEach((error) => errors.push(`Row ${record.row}: ${error}`));
+    checked.warnings.forEach((warning) => warnings.push(`Row ${record.row}: ${warning}`));
+    const { flight } = checked;
+    if (!flight) {
+      rejectedRows.set(record.row, checked.errors[0]);
+      return;
+    }
+
+    const flightKey = duplicateKey(flight);
+    const duplicateOf = seenFlights.get(flightKey);
+    if (duplicateOf !== undefined) {
+      warnings.push(
+        `Row ${record.row}: Possible duplicate of row ${duplicateOf} (${record.date}: ${flight.origin_code} → ${flight.destination_code})`
+      );
+    } else {
+      seenFlights.set(flightKey, record.row);
+    }
+
+    flights.push(flight);
+  });
+
+  // Calendar events whose flight failed validation count as skipped too
+  const events = parsed.events?.map((event) => {
+    const reason = rejectedRows.get(event.row);
+    return event.recognized && reason ? { ...event, recognized: false, reason } : event;
+  });
+
+  return { format, flights, errors, warnings, events };
+}
+
+// Local clock time ("HH:MM") from "14:35", "14:35:00" or an ISO date-time.
+// With a base date, later calendar days get a "+N" suffix like flights.csv arrivals.
+export function toLocalTime(value: string, baseDate?: FlightDate | null): string {
+  const match = /(?:^|[T ])(\d{1,2}):(\d{2})(?::\d{2})?/.exec(value.trim());
+  if (!match) return '';
+  const time = `${match[1].padStart(2, '0')}:${match[2]}`;
+  if (!baseDate) return time;
+  const date = parseFlightDate(value.trim().slice(0, 10));
+  const dayOffset = date ? date.dayNumber - baseDate.dayNumber : 0;
+  return dayOffset > 0 ? `${time}+${dayOffset}` : time;
+}
+
+// Split "United Airlines (UA/UAL)" or "Los Angeles International (LAX/KLAX)" into name and codes
+export function splitDesignators(value: string): { name: string; codes: string[] } {
+  const match = /^(.*?)\s*\(([^()]*)\)\s*$/.exec(value.trim());
+  if (!match) return { name: value.trim(), codes: [] };
+  const codes = match[2].split('/').map((code) => code.trim().toUpperCase()).filter(Boolean);
+  return { name: match[1].trim(), codes };
+}
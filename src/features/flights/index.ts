@@ -4,15 +4,26 @@ export { FlightsMap } from './components/FlightsMap';
 // Hooks
 export { useAirports, useFlights, useGlobeData } from './hooks/useFlightData';
 
+// Importers
+export { importFlights, detectImportFormat, loadAirportTable, IMPORT_FORMAT_LABELS } from './importers';
+
 // Types
 export type {
   AirportProperties,
   FlightProperties,
   AirportFeature,
   FlightFeature,
+  FlightGeometry,
   AirportsCollection,
   FlightsCollection,
+  FlightDataFormat,
   GlobeArc,
   GlobePoint,
   GlobeLabel,
+  Airline,
+  AirportAlias,
+  AirportRecord,
+  AirportTable,
+  ImportFormat,
+  ImportResult,
 } from './types';
@@ -1,7 +1,8 @@
-import type { FeatureCollection, Feature, Point, LineString } from 'geojson';
+import type { FeatureCollection, Feature, Point, LineString, MultiLineString } from 'geojson';
 
 export interface AirportProperties {
-  code: string;
+  code: string; // IATA code, or ICAO for airports without one
+  icaoCode: string; // empty if unknown
   name: string;
   municipality: string;
   region: string;
@@ -12,16 +13,52 @@ export interface AirportProperties {
   continentName: string;
   elevationFt: number;
   elevationM: number;
+  timeZone: string; // IANA zone, empty if unknown
+  closed?: string; // ISO date the airport closed (see airportHistory.json)
+  renamedTo?: string; // code the airport continues under, if it was renamed or merged
   visitCount: number;
   arrivalCount: number;
   departureCount: number;
   visitDates: string[];
 }
 
+// Normalized flight date (see utils/dates.ts). Accepts M/D/YYYY or ISO 8601 sources.
+export interface FlightDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number | null; // local time of day, if the source included one
+  minute: number | null;
+  offsetMinutes: number | null; // explicit UTC offset, e.g. -420 for -07:00
+  timeZone: string | null; // IANA zone, e.g. "America/Los_Angeles"
+  dayNumber: number; // days since 1970-01-01 for the local calendar date
+  iso: string; // normalized "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"
+}
+
+// Actual block times, resolved from local departure/arrival times and airport time zones
+export interface FlightTiming {
+  departureUtc: number; // ms since epoch
+  arrivalUtc: number;
+  durationMinutes: number;
+  overnight: boolean; // lands on a later local calendar day than it left
+  redEye: boolean; // late-night departure landing early the next morning
+}
+
 export interface FlightProperties {
   id: number;
   date: string;
-  airline: string;
+  airline: string; // airline registry name when resolved, otherwise as entered
+  airlineIata: string; // registry designators, empty when the airline isn't in the registry
+  airlineIcao: string;
+  alliance: Alliance | ''; // airline's alliance on the flight date, empty if unaffiliated
+  flightNumber: string; // e.g. "LX 41", empty when unknown
+  notes: string;
+  flightDate: FlightDate; // parsed from `date` when the data is loaded
+  departureTime: string; // local "HH:MM" at origin, empty when unknown
+  arrivalTime: string; // local "HH:MM" at destination, "+1" suffix for next day
+  timing: FlightTiming | null; // computed on load when both times are known
+  tripId: string; // explicit trip id from the `trip` column, empty to infer
+  traveler: string; // who flew, from the optional `traveler` column; empty if unattributed
   origin_code: string;
   origin_name: string;
   origin_municipality: string;
@@ -33,6 +70,7 @@ export interface FlightProperties {
   origin_continentName: string;
   origin_lon: number;
   origin_lat: number;
+  origin_timeZone: string;
   destination_code: string;
   destination_name: string;
   destination_municipality: string;
@@ -44,6 +82,31 @@ export interface FlightProperties {
   destination_continentName: string;
   destination_lon: number;
   destination_lat: number;
+  destination_timeZone: string;
+}
+
+export type Alliance = 'star-alliance' | 'oneworld' | 'skyteam';
+
+// Alliance filter value; 'none' selects flights on unaffiliated airlines
+export type AllianceFilter = Alliance | 'none';
+
+// Membership period, inclusive ISO dates (open-ended when omitted)
+export interface AllianceMembership {
+  alliance: Alliance;
+  from?: string;
+  until?: string;
+}
+
+// Airline registry entry (projects/flights/data/airlines.json). flights.csv airline
+// names, aliases and designators are resolved against it at build time.
+export interface Airline {
+  name: string;
+  aliases: string[];
+  iata: string; // 2-character designator, e.g. "LX"
+  icao: string; // 3-letter designator, e.g. "SWR"
+  alliances: AllianceMembership[]; // in date order, empty if never in an alliance
+  country: string; // ISO 3166-1 alpha-2
+  color: string; // brand color, used for arcs in the airline color mode
 }
 
 // Metadata pre-computed at build time
@@ -55,16 +118,91 @@ export interface FlightsMetadata {
   internationalFlights: number;
   intercontinentalFlights: number;
   domesticFlights: number;
+  airlines: Airline[]; // registry entries for the airlines flown
+  dataHash: string; // hash of the flights, unchanged by rebuilds of the same data
   generatedAt: string;
 }
 
 export type AirportFeature = Feature<Point, AirportProperties>;
-export type FlightFeature = Feature<LineString, FlightProperties>;
+// Densified great-circle track, split into a MultiLineString where it crosses the
+// antimeridian. The globe draws arcs from the origin/destination properties instead.
+export type FlightGeometry = LineString | MultiLineString;
+export type FlightFeature = Feature<FlightGeometry, FlightProperties>;
 export type AirportsCollection = FeatureCollection<Point, AirportProperties>;
-export type FlightsCollection = FeatureCollection<LineString, FlightProperties> & {
+export type FlightsCollection = FeatureCollection<FlightGeometry, FlightProperties> & {
   metadata?: FlightsMetadata;
 };
 
+// Columnar build output (flights.compact.json), decoded by utils/compact.ts into the
+// same collections as flights.geojson / visitedAirports.geojson. Airports and airlines
+// are stored once and referenced by index; every column has one entry per row.
+export interface CompactFlightData {
+  version: number;
+  metadata: FlightsMetadata;
+  airports: {
+    code: string[];
+    icaoCode: string[];
+    name: string[];
+    municipality: string[];
+    region: string[];
+    regionName: string[];
+    country: string[];
+    countryName: string[];
+    continent: string[];
+    continentName: string[];
+    elevationFt: number[];
+    elevationM: number[];
+    timeZone: string[];
+    arrivalCount: number[];
+    departureCount: number[];
+    lon: number[];
+    lat: number[];
+    closed: string[]; // empty unless closed
+    renamedTo: string[]; // empty unless renamed
+    visitDays: number[][]; // day numbers (days since 1970-01-01)
+  };
+  airlines: {
+    name: string[];
+    iata: string[];
+    icao: string[];
+  };
+  alliances: (Alliance | '')[];
+  travelers: string[]; // traveler names, '' first for unattributed flights
+  flights: {
+    id: number[];
+    day: number[]; // day number of the first flight, then the difference from the previous flight
+    date: string[]; // date as written in flights.csv, empty when it's M/D/YYYY for `day`
+    origin: number[]; // index into airports
+    destination: number[];
+    airline: number[]; // index into airlines
+    alliance: number[]; // index into alliances
+    traveler: number[]; // index into travelers
+    flightNumber: string[];
+    notes: string[];
+    departureTime: string[];
+    arrivalTime: string[];
+    tripId: string[];
+  };
+}
+
+// Which build output useFlights/useAirports load
+export type FlightDataFormat = 'compact' | 'geojson';
+
+// Why a loaded flight or airport was dropped (see utils/validation.ts)
+export type DataIssueReason =
+  | 'invalid-feature' // not a GeoJSON feature, or a required property is missing
+  | 'missing-coordinates'
+  | 'invalid-date'
+  | 'unknown-airport' // flight references an airport that isn't in the airports data
+  | 'invalid-metadata';
+
+export interface DataIssue {
+  kind: 'flight' | 'airport' | 'metadata';
+  id: string; // flight id or airport code, empty when the feature has none
+  reason: DataIssueReason;
+  message: string;
+}
+
 // Route statistics for frequency analysis
 export interface RouteStats {
   routeKey: string; // "LAX-JFK" sorted alphabetically
@@ -76,6 +214,35 @@ export interface RouteStats {
 }
 
 // Selected airport info for filtered stats
+export interface AirlineCount {
+  airline: string;
+  count: number;
+  designator: string; // IATA code, else ICAO, empty if not in the registry
+  color: string;
+}
+
+export interface TravelerCount {
+  traveler: string;
+  count: number;
+  sharedFlights: number; // flights flown together with another traveler
+}
+
+// One flight several travelers logged: same date and route
+export interface SharedFlight {
+  key: string; // "YYYY-MM-DD|ORIGIN|DESTINATION"
+  date: string;
+  origin: string;
+  destination: string;
+  travelers: string[];
+}
+
+export interface AllianceStat {
+  alliance: AllianceFilter;
+  flights: number;
+  distance: number; // km
+  share: number; // fraction of flights, 0-1
+}
+
 export interface SelectedAirportInfo {
   code: string;
   name: string;
@@ -88,6 +255,8 @@ export interface SelectedAirportInfo {
   continentName: string;
   elevationFt: number;
   elevationM: number;
+  closed?: string;
+  renamedTo?: string;
   totalVisits: number;
   arrivals: number;
   departures: number;
@@ -108,29 +277,190 @@ export interface FlightStats {
   totalAirlines: number;
   totalDistance: number; // in km
   years: number[];
+  monthlyCounts: MonthCount[]; // first flight's month to the last, before the other filters
   busiestRoutes: RouteStats[];
   busiestAirport: { code: string; count: number; departures: number; arrivals: number } | null;
   longestFlight: { route: string; distance: number } | null;
   shortestFlight: { route: string; distance: number } | null;
   internationalFlights: number;
   intercontinentalFlights: number;
-  continentCounts: Record<string, number>;
   averageDistance: number;
-  totalFlightTime: number; // estimated hours
+  totalFlightTime: number; // hours, measured where times are logged, estimated otherwise
+  measuredFlightTime: number; // hours from logged departure/arrival times
+  measuredFlights: number;
+  estimatedFlights: number;
+  redEyeFlights: number;
+  overnightFlights: number;
   uniqueRoutes: number;
   mostVisitedCountry: { country: string; count: number; departures: number; arrivals: number } | null;
   firstFlight: { route: string; date: string } | null;
   lastFlight: { route: string; date: string } | null;
   selectedAirportInfo: SelectedAirportInfo | null;
-  airlineCounts: { airline: string; count: number }[];
+  airlineCounts: AirlineCount[];
+  allianceStats: AllianceStat[]; // before the alliance filter, largest first
+  flightTypeCounts: Record<FlightType, number>; // before the flight type and haul filters
+  haulCounts: Record<HaulLength, number>; // before the flight type and haul filters
+  travelerCounts: TravelerCount[]; // named travelers across all flights, most flights first
+  sharedFlights: SharedFlight[]; // among the filtered flights, most recent first
   topCountries: { code: string; name: string; count: number; departures: number; arrivals: number }[];
   topRegions: { code: string; name: string; country: string; count: number }[];
+  topContinents: { code: string; name: string; count: number }[];
   highestAirport: { code: string; name: string; elevationFt: number; elevationM: number } | null;
   lowestAirport: { code: string; name: string; elevationFt: number; elevationM: number } | null;
 }
 
+// Multi-leg journey, either from an explicit trip id or inferred (see utils/trips.ts)
+export interface Trip {
+  id: string;
+  source: 'explicit' | 'inferred';
+  legs: FlightProperties[]; // in travel order
+  airports: string[]; // airport codes in visit order, e.g. ["LAX", "LHR", "DUB", "LAX"]
+  startDate: FlightDate;
+  endDate: FlightDate;
+  durationDays: number; // calendar days from first to last leg, inclusive
+  flightTime: number; // hours in the air (measured where logged, estimated otherwise)
+  totalDistance: number; // in km
+  countries: { code: string; name: string }[]; // in the order first visited
+}
+
+// Reference airport from airports.csv with resolved names — the table convertFlights.js
+// builds flights from, also emitted as data/flights/airports.json for the importers
+export interface AirportRecord {
+  code: string; // IATA code, or ICAO for airports without one
+  icaoCode: string;
+  name: string;
+  municipality: string;
+  region: string;
+  regionName: string;
+  country: string;
+  countryName: string;
+  continent: string;
+  continentName: string;
+  lat: number;
+  lon: number;
+  elevationFt: number;
+  elevationM: number;
+  timeZone: string;
+  closed?: string;
+  renamedTo?: string;
+}
+
+// Code that meant a different airport for flights within a date range (inclusive),
+// from projects/flights/data/airportHistory.json, e.g. HKG meant Kai Tak until July 1998
+export interface AirportAlias {
+  code: string;
+  from?: string;
+  until?: string;
+  airport: string;
+}
+
+export interface AirportTable {
+  byCode: Map<string, AirportRecord>; // keyed by both IATA and ICAO code
+  aliases: AirportAlias[];
+  airlines: Airline[]; // the whole airline registry
+}
+
+// Export formats understood by the importers (see importers/)
+export type ImportFormat = 'openflights' | 'myflightradar24' | 'flighty' | 'json' | 'flights-csv' | 'bcbp' | 'ics';
+
+// One flight segment of a decoded IATA boarding pass barcode (see importers/bcbp.ts)
+export interface BoardingPassLeg {
+  pnr: string;
+  origin: string;
+  destination: string;
+  carrier: string; // operating carrier designator, e.g. "UA"
+  flightNumber: string; // e.g. "UA 123"
+  julianDate: number; // day of year as printed, 1-366
+  date: string; // resolved "YYYY-MM-DD"
+  compartment: string;
+  seat: string;
+  sequenceNumber: string;
+  passengerStatus: string;
+}
+
+export interface BoardingPass {
+  passengerName: string;
+  electronicTicket: boolean;
+  issueDate: string | null; // "YYYY-MM-DD" when the pass carries a date of issue
+  legs: BoardingPassLeg[];
+}
+
+// One flight in flights.csv column shape, as produced by a format-specific importer
+export interface FlightRecord {
+  row: number; // source row number for error messages
+  date: string;
+  airline: string;
+  flightNumber: string;
+  origin: string;
+  destination: string;
+  notes: string;
+  departureTime: string;
+  arrivalTime: string;
+  trip: string;
+  traveler: string;
+}
+
+// Local change to the published flights, kept in IndexedDB until it's made in the
+// sheet (see utils/drafts.ts)
+export type FlightDraftAction = 'add' | 'edit' | 'delete';
+
+export interface FlightDraft {
+  id: string;
+  action: FlightDraftAction;
+  flightId: number | null; // published flight being edited or deleted, null for additions
+  record: FlightRecord; // flights.csv columns; for deletions, the published flight's
+  original: FlightRecord | null; // published flight as it was when the draft was made
+  createdAt?: string; // ISO timestamp; missing on drafts saved before it was recorded
+  updatedAt: string; // ISO timestamp
+}
+
+// A draft checked with the sync QA/QC rules; errors keep it off the globe
+export interface ValidatedDraft {
+  draft: FlightDraft;
+  flight: FlightProperties | null; // the flight as overlaid, null for deletions and drafts with errors
+  errors: string[];
+  warnings: string[];
+}
+
+// How a calendar (.ics) event was handled; row is the event's position in the file
+export interface CalendarEventResult {
+  row: number;
+  summary: string;
+  start: string; // raw DTSTART value
+  recognized: boolean;
+  reason: string; // why the event was skipped, empty when recognized
+}
+
+// Errors and warnings use the same "Row N: ..." messages as sync-flights' runQAQC
+export interface ParsedFlightRecords {
+  records: FlightRecord[];
+  errors: string[];
+  warnings: string[];
+  events?: CalendarEventResult[]; // calendar imports only
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  flights: FlightProperties[];
+  errors: string[]; // rows that were skipped
+  warnings: string[]; // informational, rows were still imported
+  events?: CalendarEventResult[];
+}
+
+// A visitor's own flight log, dropped onto the globe. Parsed and shown in the
+// browser only; it replaces the published flights until cleared or reloaded.
+export interface PrivateFlightData {
+  fileName: string;
+  result: ImportResult; // import messages, for the banner
+  flights: FlightsCollection;
+  airports: AirportsCollection;
+}
+
+// Download formats for the currently visible flights (see utils/export.ts)
+export type ExportFormat = 'geojson' | 'kml' | 'gpx' | 'csv-flights' | 'csv-airports';
+
 // Color mode options
-export type ColorMode = 'year' | 'frequency' | 'airline' | 'default';
+export type ColorMode = 'year' | 'frequency' | 'airline' | 'alliance' | 'default';
 
 // react-globe.gl data types
 export interface GlobeArc {
@@ -149,6 +479,8 @@ export interface GlobeArc {
   year: number;
   routeKey: string;
   routeCount: number;
+  shared: boolean; // flown together by several travelers
+  comparisonSide?: ComparisonSide; // in compare mode, which filter set the route is in
 }
 
 export interface GlobeStaticArc {
@@ -162,6 +494,8 @@ export interface GlobeStaticArc {
   routeCount: number;
   flights: FlightProperties[];
   isConnected: boolean;
+  isShared: boolean; // any flight on the route was flown together by several travelers
+  comparisonSide?: ComparisonSide;
 }
 
 export interface GlobePoint {
@@ -180,3 +514,105 @@ export interface GlobeLabel {
   color: string;
   size: number;
 }
+
+// Inclusive date range (see utils/dateRange.ts); each end is "YYYY", "YYYY-MM" or
+// "YYYY-MM-DD", or null to leave it open
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+// Flights in one month, for the timeline scrubber
+export interface MonthCount {
+  month: string; // "YYYY-MM"
+  count: number;
+}
+
+// Flight type and haul length filters (see utils/flightTypes.ts)
+export type FlightType = 'domestic' | 'international' | 'intercontinental';
+export type HaulLength = 'short' | 'medium' | 'long';
+
+// Great-circle distance bands in km
+export interface HaulThresholds {
+  shortMax: number; // short-haul below this
+  longMin: number; // long-haul from this
+}
+
+export type PlaceKind = 'country' | 'region' | 'continent';
+
+// Places to filter by (see utils/places.ts), as airport country, region and continent codes
+export interface PlaceFilter {
+  country: string | null;
+  region: string | null;
+  continent: string | null;
+  within: boolean; // both ends of a flight in the place, rather than either
+}
+
+// Airlines to show or hide (see utils/airlineFilter.ts); an empty include list means every airline
+export interface AirlineFilter {
+  include: string[];
+  exclude: string[];
+}
+
+// Filter state the globe data is computed for (see utils/globeData.ts)
+export interface GlobeFilters {
+  selectedYear: number | null;
+  dateRange: DateRange | null;
+  places: PlaceFilter | null;
+  flightType: FlightType | null;
+  haul: HaulLength | null;
+  haulThresholds: HaulThresholds;
+  colorMode: ColorMode;
+  selectedAirport: string | null; // primary code, already resolved
+  airlines: AirlineFilter | null;
+  selectedAlliance: AllianceFilter | null;
+  selectedTraveler: string | null; // null for everyone's flights combined
+  showShared: boolean; // highlight flights several travelers flew together
+  compareWith: ComparisonFilters | null; // side B in compare mode; the filters above are side A
+}
+
+// The filters one side of a comparison can set ("2019 vs 2023", "United vs Delta")
+export interface ComparisonFilters {
+  selectedYear: number | null;
+  airlines: AirlineFilter | null;
+  selectedAlliance: AllianceFilter | null;
+  selectedTraveler: string | null;
+}
+
+// Which side of a comparison a route was flown in
+export type ComparisonSide = 'a' | 'b' | 'both';
+
+export interface FlightComparison {
+  a: FlightStats;
+  b: FlightStats;
+  newAirports: string[]; // airports in B that A never visited
+  routeCounts: Record<ComparisonSide, number>; // routes flown only in A, only in B, or in both
+}
+
+export interface GlobeData {
+  arcsData: GlobeArc[];
+  staticArcsData: GlobeStaticArc[];
+  pointsData: GlobePoint[];
+  labelsData: GlobeLabel[];
+  flightStats: FlightStats; // side A in compare mode
+  routeStats: Map<string, RouteStats>;
+  comparison: FlightComparison | null;
+}
+
+// Messages between useGlobeData and workers/globeData.worker.ts.
+// Results echo the request key (the serialized filters) so they can be cached.
+export type GlobeWorkerRequest =
+  | { type: 'load'; flights: FlightsCollection; airports: AirportsCollection }
+  | { type: 'compute'; key: string; filters: GlobeFilters };
+
+export type GlobeWorkerResponse =
+  | { type: 'result'; key: string; data: GlobeData }
+  | { type: 'error'; key: string; message: string };
+
+// Reply from workers/compactData.worker.ts to the fetched flights.compact.json
+export type CompactDataWorkerResponse =
+  | { type: 'result'; data: { flights: FlightsCollection; airports: AirportsCollection } }
+  | { type: 'error'; message: string };
+
+// Messages public/sw.js posts to open pages
+export type ServiceWorkerMessage = { type: 'flight-data-updated'; generatedAt: string };
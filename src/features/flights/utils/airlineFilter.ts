@@ -0,0 +1,66 @@
+/**
+ * Airline filter: flights by any of the included airlines (all airlines when none
+ * is included), minus the excluded ones. Stored as repeated `airline` and
+ * `exclude_airline` URL parameters, so `?airline=United Airlines` links still work:
+ *
+ *   ?airline=United Airlines&airline=Lufthansa
+ *   ?exclude_airline=Spirit Airlines&exclude_airline=Frontier Airlines
+ *
+ * Compare mode's side B uses the same parameters with a `vs_` prefix.
+ */
+
+import type { AirlineFilter, FlightProperties } from '../types';
+
+export const NO_AIRLINE_FILTER: AirlineFilter = { include: [], exclude: [] };
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter((value) => value !== '')));
+}
+
+// The filter from the URL, or null when no airline is included or excluded
+export function parseAirlineFilter(params: URLSearchParams, prefix = ''): AirlineFilter | null {
+  const include = unique(params.getAll(`${prefix}airline`));
+  const exclude = unique(params.getAll(`${prefix}exclude_airline`)).filter((airline) => !include.includes(airline));
+  return include.length > 0 || exclude.length > 0 ? { include, exclude } : null;
+}
+
+export function writeAirlineFilter(params: URLSearchParams, filter: AirlineFilter | null, prefix = ''): void {
+  params.delete(`${prefix}airline`);
+  params.delete(`${prefix}exclude_airline`);
+  filter?.include.forEach((airline) => params.append(`${prefix}airline`, airline));
+  filter?.exclude.forEach((airline) => params.append(`${prefix}exclude_airline`, airline));
+}
+
+export function isFlightInAirlineFilter(flight: FlightProperties, filter: AirlineFilter | null): boolean {
+  if (!filter) return true;
+  if (filter.include.length > 0 && !filter.include.includes(flight.airline)) return false;
+  return !filter.exclude.includes(flight.airline);
+}
+
+// Include or exclude an airline (or drop it from the filter with null); null when nothing is left
+export function toggleAirline(
+  filter: AirlineFilter | null,
+  airline: string,
+  mode: 'include' | 'exclude' | null
+): AirlineFilter | null {
+  const current = filter ?? NO_AIRLINE_FILTER;
+  const next = {
+    include: current.include.filter((a) => a !== airline),
+    exclude: current.exclude.filter((a) => a !== airline),
+  };
+  if (mode) next[mode].push(airline);
+  return next.include.length > 0 || next.exclude.length > 0 ? next : null;
+}
+
+// The one airline shown, if the filter is a single included airline
+export function getSingleAirline(filter: AirlineFilter | null): string | null {
+  return filter && filter.include.length === 1 && filter.exclude.length === 0 ? filter.include[0] : null;
+}
+
+// "United Airlines", "United Airlines or Lufthansa", "3 airlines", "all but Spirit Airlines"
+export function describeAirlineFilter(filter: AirlineFilter): string {
+  const list = (airlines: string[], joiner: string) =>
+    airlines.length <= 2 ? airlines.join(joiner) : `${airlines.length} airlines`;
+  if (filter.include.length > 0) return list(filter.include, ' or ');
+  return `all but ${list(filter.exclude, ' and ')}`;
+}
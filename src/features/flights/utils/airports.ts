@@ -0,0 +1,6 @@
+// Closed / renamed marker for an airport from airportHistory.json, e.g. "closed 2020" or "now BER"
+export function formatAirportStatus(airport: { closed?: string; renamedTo?: string }): string {
+  if (airport.renamedTo) return `now ${airport.renamedTo}`;
+  if (airport.closed) return `closed ${airport.closed.slice(0, 4)}`;
+  return '';
+}
@@ -0,0 +1,27 @@
+import type { AllianceFilter, FlightProperties } from '../types';
+
+export const ALLIANCES: AllianceFilter[] = ['star-alliance', 'oneworld', 'skyteam', 'none'];
+
+export const ALLIANCE_LABELS: Record<AllianceFilter, string> = {
+  'star-alliance': 'Star Alliance',
+  oneworld: 'oneworld',
+  skyteam: 'SkyTeam',
+  none: 'Unaffiliated',
+};
+
+// Arc and legend colors for the alliance color mode
+export const ALLIANCE_COLORS: Record<AllianceFilter, string> = {
+  'star-alliance': '#fbbf24',
+  oneworld: '#f43f5e',
+  skyteam: '#38bdf8',
+  none: '#6b7280',
+};
+
+export function getFlightAlliance(flight: FlightProperties): AllianceFilter {
+  return flight.alliance || 'none';
+}
+
+// Parse the `alliance` URL parameter, ignoring unknown values
+export function parseAllianceFilter(value: string | null): AllianceFilter | null {
+  return ALLIANCES.find((alliance) => alliance === value) ?? null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Build the same flight and airport collections convertFlights.js writes, from
+ * flights resolved in the browser (drafts, or a visitor's own file).
+ */
+
+import type { AirportFeature, AirportTable, AirportsCollection, FlightFeature, FlightProperties, FlightsCollection } from '../types';
+import { formatFlightDate } from './dates';
+import { greatCircleLines } from './geo';
+
+export function toFlightFeature(flight: FlightProperties): FlightFeature {
+  const lines = greatCircleLines(flight.origin_lat, flight.origin_lon, flight.destination_lat, flight.destination_lon);
+  return {
+    type: 'Feature',
+    properties: flight,
+    geometry: lines.length === 1
+      ? { type: 'LineString', coordinates: lines[0] }
+      : { type: 'MultiLineString', coordinates: lines },
+  };
+}
+
+/**
+ * Airports visited by the flights, with their visit counts. Airports already in
+ * `known` keep their properties and order; others come from the airport table.
+ */
+export function countAirportVisits(
+  flights: FlightFeature[],
+  airportTable: AirportTable,
+  known: AirportFeature[] = []
+): AirportFeature[] {
+  const visits = new Map<string, { arrivals: number; departures: number; dates: Set<string> }>();
+  const visit = (code: string) => {
+    let entry = visits.get(code);
+    if (!entry) {
+      entry = { arrivals: 0, departures: 0, dates: new Set() };
+      visits.set(code, entry);
+    }
+    return entry;
+  };
+  flights.forEach(({ properties }) => {
+    const date = formatFlightDate(properties.flightDate);
+    const origin = visit(properties.origin_code);
+    origin.departures++;
+    origin.dates.add(date);
+    const destination = visit(properties.destination_code);
+    destination.arrivals++;
+    destination.dates.add(date);
+  });
+
+  const knownByCode = new Map(known.map((feature) => [feature.properties.code, feature]));
+  const codes = [...knownByCode.keys(), ...[...visits.keys()].filter((code) => !knownByCode.has(code))];
+  return codes.flatMap((code): AirportFeature[] => {
+    const entry = visits.get(code);
+    if (!entry) return []; // no flights left through it
+    const counts = {
+      visitDates: Array.from(entry.dates),
+      visitCount: entry.arrivals + entry.departures,
+      arrivalCount: entry.arrivals,
+      departureCount: entry.departures,
+    };
+    const feature = knownByCode.get(code);
+    if (feature) return [{ ...feature, properties: { ...feature.properties, ...counts } }];
+
+    // Flights resolved in the browser only use airports from the table
+    const record = airportTable.byCode.get(code);
+    if (!record) return [];
+    const { lat, lon, ...properties } = record;
+    return [{ type: 'Feature', properties: { ...properties, ...counts }, geometry: { type: 'Point', coordinates: [lon, lat] } }];
+  });
+}
+
+// Collections for flights that don't come from the build, e.g. a dropped flights.csv
+export function buildCollections(
+  flights: FlightProperties[],
+  airportTable: AirportTable
+): { flights: FlightsCollection; airports: AirportsCollection } {
+  const features = flights.map(toFlightFeature);
+  return {
+    flights: { type: 'FeatureCollection', features },
+    airports: { type: 'FeatureCollection', features: countAirportVisits(features, airportTable) },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Decoder for the compact columnar flight data (flights.compact.json).
+ *
+ * convertFlights.js writes the airports and airlines once, and each flight as a
+ * row of indexes, a delta-encoded day number and its free-text columns. Decoding
+ * rebuilds the same collections as flights.geojson and visitedAirports.geojson,
+ * including the great-circle tracks. Flight dates are M/D/YYYY unless flights.csv
+ * had an ISO date with a time or zone, which is kept as written for the timing.
+ */
+
+import type {
+  AirportFeature,
+  AirportProperties,
+  AirportsCollection,
+  CompactFlightData,
+  FlightFeature,
+  FlightGeometry,
+  FlightProperties,
+  FlightsCollection,
+} from '../types';
+import { flightDateFromDayNumber, formatFlightDate, parseFlightDate } from './dates';
+import { greatCirclePoints, splitAtAntimeridian } from './geo';
+
+export const COMPACT_FORMAT_VERSION = 3;
+
+const roundCoord = (value: number) => Math.round(value * 1e5) / 1e5;
+
+function dateString(dayNumber: number): string {
+  return formatFlightDate(flightDateFromDayNumber(dayNumber));
+}
+
+function decodeAirport(data: CompactFlightData['airports'], i: number): AirportProperties {
+  return {
+    code: data.code[i],
+    icaoCode: data.icaoCode[i],
+    municipality: data.municipality[i],
+    region: data.region[i],
+    regionName: data.regionName[i],
+    country: data.country[i],
+    countryName: data.countryName[i],
+    continent: data.continent[i],
+    continentName: data.continentName[i],
+    name: data.name[i],
+    elevationFt: data.elevationFt[i],
+    elevationM: data.elevationM[i],
+    timeZone: data.timeZone[i],
+    // Only present for closed or renamed airports
+    ...(data.closed[i] && { closed: data.closed[i] }),
+    ...(data.renamedTo[i] && { renamedTo: data.renamedTo[i] }),
+    visitDates: data.visitDays[i].map(dateString),
+    visitCount: data.arrivalCount[i] + data.departureCount[i],
+    arrivalCount: data.arrivalCount[i],
+    departureCount: data.departureCount[i],
+  };
+}
+
+// Same track convertFlights.js writes: interior vertices and antimeridian crossings
+// rounded to 1e-5°, endpoints exact
+function flightGeometry(flight: FlightProperties): FlightGeometry {
+  const points = greatCirclePoints(flight.origin_lat, flight.origin_lon, flight.destination_lat, flight.destination_lon);
+  const rounded = points.map(([lon, lat], i): [number, number] =>
+    i === 0 || i === points.length - 1 ? [lon, lat] : [roundCoord(lon), roundCoord(lat)]
+  );
+  const lines = splitAtAntimeridian(rounded).map((line) =>
+    line.map(([lon, lat]): [number, number] => (Math.abs(lon) === 180 ? [lon, roundCoord(lat)] : [lon, lat]))
+  );
+  return lines.length === 1
+    ? { type: 'LineString', coordinates: lines[0] }
+    : { type: 'MultiLineString', coordinates: lines };
+}
+
+// Every column must have one value per row and every index must resolve, otherwise
+// the file is corrupt (rows with bad values are left to utils/validation.ts)
+function assertCompactShape(data: CompactFlightData) {
+  if (data?.version !== COMPACT_FORMAT_VERSION) {
+    throw new Error(`Unsupported compact data version ${data?.version} (expected ${COMPACT_FORMAT_VERSION})`);
+  }
+  const tables = { airports: data.airports, airlines: data.airlines, flights: data.flights };
+  const rowCounts: Record<string, number> = {};
+  Object.entries(tables).forEach(([table, columns]) => {
+    if (typeof columns !== 'object' || columns === null) throw new Error(`Compact data is missing the ${table} table`);
+    Object.entries(columns).forEach(([column, values]: [string, unknown]) => {
+      const length = Array.isArray(values) ? values.length : -1;
+      rowCounts[table] ??= length;
+      if (length !== rowCounts[table]) {
+        throw new Error(`Compact data column ${table}.${column} has ${length} values, expected ${rowCounts[table]}`);
+      }
+    });
+  });
+  const checkIndexes = (column: keyof CompactFlightData['flights'], size: number) => {
+    const values = data.flights[column] as unknown[];
+    const bad = values.findIndex((value) => !Number.isInteger(value) || (value as number) < 0 || (value as number) >= size);
+    if (bad !== -1) throw new Error(`Compact data column flights.${column} has an invalid index at row ${bad + 1}`);
+  };
+  checkIndexes('origin', rowCounts.airports);
+  checkIndexes('destination', rowCounts.airports);
+  checkIndexes('airline', rowCounts.airlines);
+  checkIndexes('alliance', data.alliances?.length ?? 0);
+  checkIndexes('traveler', data.travelers?.length ?? 0);
+}
+
+/**
+ * Rebuild the flights and visited airports collections from the compact format.
+ * Throws if the data was written by an incompatible version of convertFlights.js
+ * or its columns don't line up.
+ */
+export function decodeCompactData(data: CompactFlightData): {
+  flights: FlightsCollection;
+  airports: AirportsCollection;
+} {
+  assertCompactShape(data);
+
+  const airports = data.airports.code.map((_, i) => decodeAirport(data.airports, i));
+  const airportFeatures: AirportFeature[] = airports.map((properties, i) => ({
+    type: 'Feature',
+    properties,
+    geometry: { type: 'Point', coordinates: [data.airports.lon[i], data.airports.lat[i]] },
+  }));
+
+  const columns = data.flights;
+  let dayNumber = 0;
+  const flightFeatures: FlightFeature[] = columns.id.map((id, i) => {
+    dayNumber = i === 0 ? columns.day[0] : dayNumber + columns.day[i];
+    const origin = airports[columns.origin[i]];
+    const destination = airports[columns.destination[i]];
+    const airline = columns.airline[i];
+    const [originLon, originLat] = airportFeatures[columns.origin[i]].geometry.coordinates;
+    const [destinationLon, destinationLat] = airportFeatures[columns.destination[i]].geometry.coordinates;
+    const rawDate = columns.date[i];
+    const flightDate = (rawDate && parseFlightDate(rawDate)) || flightDateFromDayNumber(dayNumber);
+
+    const properties: FlightProperties = {
+      id,
+      date: rawDate || formatFlightDate(flightDate),
+      airline: data.airlines.name[airline],
+      airlineIata: data.airlines.iata[airline],
+      airlineIcao: data.airlines.icao[airline],
+      alliance: data.alliances[columns.alliance[i]],
+      flightNumber: columns.flightNumber[i],
+      notes: columns.notes[i],
+      flightDate,
+      departureTime: columns.departureTime[i],
+      arrivalTime: columns.arrivalTime[i],
+      timing: null, // computed with the rest of the timing on load
+      tripId: columns.tripId[i],
+      traveler: data.travelers[columns.traveler[i]],
+      origin_code: origin.code,
+      origin_name: origin.name,
+      origin_municipality: origin.municipality,
+      origin_region: origin.region,
+      origin_regionName: origin.regionName,
+      origin_country: origin.country,
+      origin_countryName: origin.countryName,
+      origin_continent: origin.continent,
+      origin_continentName: origin.continentName,
+      origin_lon: originLon,
+      origin_lat: originLat,
+      origin_timeZone: origin.timeZone,
+      destination_code: destination.code,
+      destination_name: destination.name,
+      destination_municipality: destination.municipality,
+      destination_region: destination.region,
+      destination_regionName: destination.regionName,
+      destination_country: destination.country,
+      destination_countryName: destination.countryName,
+      destination_continent: destination.continent,
+      destination_continentName: destination.continentName,
+      destination_lon: destinationLon,
+      destination_lat: destinationLat,
+      destination_timeZone: destination.timeZone,
+    };
+    return { type: 'Feature', properties, geometry: flightGeometry(properties) };
+  });
+
+  return {
+    flights: { type: 'FeatureCollection', features: flightFeatures, metadata: data.metadata },
+    airports: { type: 'FeatureCollection', features: airportFeatures },
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Compare mode: the regular filters are side A, and a second filter set from the
+ * `vs_*` URL parameters is side B. Routes are colored by the side they were flown
+ * in (see createGlobeDataComputer) and the stats panel shows B relative to A.
+ */
+
+import type { ComparisonFilters, ComparisonSide } from '../types';
+import { describeAirlineFilter, parseAirlineFilter, writeAirlineFilter } from './airlineFilter';
+import { ALLIANCE_LABELS, parseAllianceFilter } from './alliances';
+
+// Arc and legend colors for routes flown only in A, only in B, or in both
+export const COMPARISON_COLORS: Record<ComparisonSide, string> = {
+  a: '#60a5fa',
+  b: '#fb923c',
+  both: '#e879f9',
+};
+
+// URL parameters for side B, e.g. `?year=2019&compare=1&vs_year=2023`. The airline
+// filter is written like side A's, as repeatable `vs_airline` and `vs_exclude_airline`.
+const COMPARISON_PREFIX = 'vs_';
+const COMPARISON_PARAMS = {
+  selectedYear: 'vs_year',
+  selectedAlliance: 'vs_alliance',
+  selectedTraveler: 'vs_traveler',
+} as const satisfies Record<Exclude<keyof ComparisonFilters, 'airlines'>, string>;
+
+// Side B from the URL, or null when compare mode is off
+export function parseComparisonFilters(params: URLSearchParams): ComparisonFilters | null {
+  if (!params.has('compare')) return null;
+  const year = Number(params.get(COMPARISON_PARAMS.selectedYear));
+  return {
+    selectedYear: Number.isInteger(year) && year > 0 ? year : null,
+    airlines: parseAirlineFilter(params, COMPARISON_PREFIX),
+    selectedAlliance: parseAllianceFilter(params.get(COMPARISON_PARAMS.selectedAlliance)),
+    selectedTraveler: params.get(COMPARISON_PARAMS.selectedTraveler) || null,
+  };
+}
+
+// Write side B into the URL parameters (null turns compare mode off)
+export function writeComparisonFilters(params: URLSearchParams, filters: ComparisonFilters | null) {
+  Object.values(COMPARISON_PARAMS).forEach((key) => params.delete(key));
+  writeAirlineFilter(params, filters?.airlines ?? null, COMPARISON_PREFIX);
+  if (filters === null) {
+    params.delete('compare');
+    return;
+  }
+  params.set('compare', '1');
+  if (filters.selectedYear !== null) params.set(COMPARISON_PARAMS.selectedYear, String(filters.selectedYear));
+  if (filters.selectedAlliance) params.set(COMPARISON_PARAMS.selectedAlliance, filters.selectedAlliance);
+  if (filters.selectedTraveler) params.set(COMPARISON_PARAMS.selectedTraveler, filters.selectedTraveler);
+}
+
+// Short label for one side, e.g. "2019 • United Airlines"
+export function describeComparisonFilters(filters: ComparisonFilters): string {
+  const parts = [
+    filters.selectedYear,
+    filters.selectedTraveler,
+    filters.airlines && describeAirlineFilter(filters.airlines),
+    filters.selectedAlliance && ALLIANCE_LABELS[filters.selectedAlliance],
+  ].filter((part) => part !== null && part !== '');
+  return parts.length > 0 ? parts.join(' • ') : 'All flights';
+}
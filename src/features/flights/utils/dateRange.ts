@@ -0,0 +1,90 @@
+/**
+ * Date-range filter from the `from`/`to` URL parameters. Either end may be a year,
+ * month or day ("2019", "2019-09", "2019-09-15"), is inclusive at that precision
+ * and may be left open. The timeline scrubber writes months.
+ */
+
+import type { DateRange, FlightProperties, MonthCount } from '../types';
+
+const RANGE_VALUE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+function parseBound(value: string | null): string | null {
+  const trimmed = value?.trim() ?? '';
+  return RANGE_VALUE.test(trimmed) ? trimmed : null;
+}
+
+// The range from the URL values, or null when neither end is set (or valid). Ends given
+// the wrong way round are swapped, comparing them at the coarser precision.
+export function parseDateRange(fromParam: string | null, toParam: string | null): DateRange | null {
+  const from = parseBound(fromParam);
+  const to = parseBound(toParam);
+  if (from && to) {
+    const length = Math.min(from.length, to.length);
+    if (from.slice(0, length) > to.slice(0, length)) return { from: to, to: from };
+  }
+  return from || to ? { from, to } : null;
+}
+
+export function writeDateRange(params: URLSearchParams, range: DateRange | null) {
+  params.delete('from');
+  params.delete('to');
+  if (range?.from) params.set('from', range.from);
+  if (range?.to) params.set('to', range.to);
+}
+
+// Compare an ISO date ("YYYY-MM-DD") or month with each end at that end's precision
+export function isInDateRange(iso: string, range: DateRange | null): boolean {
+  if (!range) return true;
+  if (range.from && iso.slice(0, range.from.length) < range.from) return false;
+  if (range.to && iso.slice(0, range.to.length) > range.to) return false;
+  return true;
+}
+
+export function isFlightInDateRange(flight: FlightProperties, range: DateRange | null): boolean {
+  return isInDateRange(flight.flightDate.iso, range);
+}
+
+// Months with any day in the range, for the scrubber
+export function isMonthInDateRange(month: string, range: DateRange | null): boolean {
+  return isInDateRange(month, range && { from: range.from?.slice(0, 7) ?? null, to: range.to?.slice(0, 7) ?? null });
+}
+
+// Label for chips and the stats panel, e.g. "Sep 2019 – Feb 2021" or "since 2019"
+export function formatDateRange(range: DateRange): string {
+  const format = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    if (!month) return String(year);
+    const date = new Date(Date.UTC(year, month - 1, day || 1));
+    return date.toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', year: 'numeric', ...(day && { day: 'numeric' }) });
+  };
+  if (range.from && range.to) return range.from === range.to ? format(range.from) : `${format(range.from)} – ${format(range.to)}`;
+  if (range.from) return `since ${format(range.from)}`;
+  return `until ${format(range.to ?? '')}`;
+}
+
+// "YYYY-MM" of a date, counting months back from today (0 is this month)
+export function monthsAgo(count: number, now = new Date()): string {
+  const date = new Date(Date.UTC(now.getFullYear(), now.getMonth() - count, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+// Flights per month from the first flight's month to the last, including empty months
+export function computeMonthlyCounts(flights: FlightProperties[]): MonthCount[] {
+  if (flights.length === 0) return [];
+  const counts = new Map<string, number>();
+  flights.forEach((flight) => {
+    const month = flight.flightDate.iso.slice(0, 7);
+    counts.set(month, (counts.get(month) ?? 0) + 1);
+  });
+  const sorted = [...counts.keys()].sort();
+  const [firstYear, firstMonth] = sorted[0].split('-').map(Number);
+  const last = sorted[sorted.length - 1];
+
+  const months: MonthCount[] = [];
+  for (let i = 0; ; i++) {
+    const month = new Date(Date.UTC(firstYear, firstMonth - 1 + i, 1)).toISOString().slice(0, 7);
+    months.push({ month, count: counts.get(month) ?? 0 });
+    if (month >= last) break;
+  }
+  return months;
+}
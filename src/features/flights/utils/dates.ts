@@ -0,0 +1,229 @@
+/**
+ * Flight date parsing.
+ *
+ * flights.csv historically uses M/D/YYYY ("6/15/2008"). The sheet can also use
+ * ISO 8601, optionally with a local time and a UTC offset or IANA time zone:
+ *   2008-06-15
+ *   2008-06-15T14:30
+ *   2008-06-15T14:30-07:00
+ *   2008-06-15T14:30[America/Los_Angeles]
+ *
+ * Everything in the flights feature should go through parseFlightDate rather
+ * than splitting date strings itself.
+ */
+
+import type { FlightDate, FlightProperties, FlightTiming } from '../types';
+
+const MS_PER_DAY = 86_400_000;
+
+const LOCAL_TIME = /^(\d{1,2}):(\d{2})(?:\s*\+(\d))?$/;
+
+// Plausible block time range; anything outside is treated as a data error
+const MIN_DURATION_MINUTES = 10;
+const MAX_DURATION_MINUTES = 20 * 60;
+
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?(?:\[([^\]]+)\])?$/;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function parseOffset(value: string): number {
+  if (value === 'Z') return 0;
+  const sign = value[0] === '-' ? -1 : 1;
+  const digits = value.slice(1).replace(':', '');
+  return sign * (parseInt(digits.slice(0, 2), 10) * 60 + parseInt(digits.slice(2), 10));
+}
+
+// Check an IANA zone name against the runtime's time zone database
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function buildFlightDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number | null = null,
+  minute: number | null = null,
+  offsetMinutes: number | null = null,
+  timeZone: string | null = null
+): FlightDate | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const utc = Date.UTC(year, month - 1, day);
+  // Reject dates that roll over (e.g. Feb 30)
+  const check = new Date(utc);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  if (hour !== null && (hour > 23 || minute === null || minute > 59)) return null;
+
+  const datePart = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    offsetMinutes,
+    timeZone,
+    dayNumber: Math.floor(utc / MS_PER_DAY),
+    iso: hour !== null ? `${datePart}T${pad(hour)}:${pad(minute ?? 0)}` : datePart,
+  };
+}
+
+// Date-only FlightDate for a day number (days since 1970-01-01), as stored in the compact data
+export function flightDateFromDayNumber(dayNumber: number): FlightDate {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return buildFlightDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())!;
+}
+
+// Parse a flights.csv date (M/D/YYYY or ISO 8601). Returns null if unparseable.
+export function parseFlightDate(value: string | null | undefined): FlightDate | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const us = US_DATE.exec(trimmed);
+  if (us) {
+    return buildFlightDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  }
+
+  const iso = ISO_DATE.exec(trimmed);
+  if (iso) {
+    const [, y, m, d, hh, mm, offset, zone] = iso;
+    if (zone && !isValidTimeZone(zone)) return null;
+    return buildFlightDate(
+      Number(y),
+      Number(m),
+      Number(d),
+      hh !== undefined ? Number(hh) : null,
+      mm !== undefined ? Number(mm) : null,
+      offset !== undefined ? parseOffset(offset) : null,
+      zone ?? null
+    );
+  }
+
+  return null;
+}
+
+// Chronological comparison (local calendar date, then local time if known)
+export function compareFlightDates(a: FlightDate, b: FlightDate): number {
+  if (a.dayNumber !== b.dayNumber) return a.dayNumber - b.dayNumber;
+  const aMinutes = a.hour !== null ? a.hour * 60 + (a.minute ?? 0) : -1;
+  const bMinutes = b.hour !== null ? b.hour * 60 + (b.minute ?? 0) : -1;
+  return aMinutes - bMinutes;
+}
+
+// Display format used across the UI: "6/15/2008"
+export function formatFlightDate(date: FlightDate): string {
+  return `${date.month}/${date.day}/${date.year}`;
+}
+
+interface LocalTime {
+  hour: number;
+  minute: number;
+  dayOffset: number | null; // explicit "+1" style suffix, null if not given
+}
+
+// Parse a local clock time like "14:30" or "07:05+1"
+export function parseLocalTime(value: string | null | undefined): LocalTime | null {
+  if (!value) return null;
+  const match = LOCAL_TIME.exec(value.trim());
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute, dayOffset: match[3] !== undefined ? Number(match[3]) : null };
+}
+
+// Offset of a time zone from UTC (in minutes) at a given instant
+function getTimeZoneOffset(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(new Date(utcMs));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+  return Math.round((asUtc - Math.floor(utcMs / 60_000) * 60_000) / 60_000);
+}
+
+// Convert a wall-clock time in an IANA zone to a UTC timestamp
+export function zonedTimeToUtc(dayNumber: number, hour: number, minute: number, timeZone: string): number {
+  const wallClock = dayNumber * MS_PER_DAY + (hour * 60 + minute) * 60_000;
+  // Two passes settle the offset across DST transitions
+  let utc = wallClock - getTimeZoneOffset(wallClock, timeZone) * 60_000;
+  utc = wallClock - getTimeZoneOffset(utc, timeZone) * 60_000;
+  return utc;
+}
+
+// Local calendar day and clock time for a UTC timestamp in an IANA zone
+export function toLocal(utcMs: number, timeZone: string): { dayNumber: number; hour: number; minute: number; date: string } {
+  const local = utcMs + getTimeZoneOffset(utcMs, timeZone) * 60_000;
+  const localDate = new Date(local);
+  return {
+    dayNumber: Math.floor(local / MS_PER_DAY),
+    hour: localDate.getUTCHours(),
+    minute: localDate.getUTCMinutes(),
+    date: localDate.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Resolve actual departure/arrival instants for a flight from its local times.
+ * Departure time comes from `departureTime` or a time in the ISO date; each end
+ * is interpreted in its airport's time zone, except that a departure uses the
+ * offset or zone written in the ISO date when there is one. Returns null when either time is
+ * missing, a zone is unknown, or the resulting duration is implausible.
+ */
+export function computeFlightTiming(flight: FlightProperties): FlightTiming | null {
+  const { flightDate } = flight;
+  const departure =
+    parseLocalTime(flight.departureTime) ??
+    (flightDate.hour !== null ? { hour: flightDate.hour, minute: flightDate.minute ?? 0, dayOffset: null } : null);
+  const arrival = parseLocalTime(flight.arrivalTime);
+  if (!departure || !arrival) return null;
+
+  const destinationZone = flight.destination_timeZone;
+  if (!destinationZone) return null;
+
+  // An explicit offset or zone in the date wins over the origin airport's zone
+  const originZone = flightDate.timeZone ?? flight.origin_timeZone;
+  let departureUtc: number;
+  if (flightDate.offsetMinutes !== null) {
+    departureUtc = flightDate.dayNumber * MS_PER_DAY + (departure.hour * 60 + departure.minute - flightDate.offsetMinutes) * 60_000;
+  } else if (originZone) {
+    departureUtc = zonedTimeToUtc(flightDate.dayNumber, departure.hour, departure.minute, originZone);
+  } else {
+    return null;
+  }
+
+  let arrivalUtc = zonedTimeToUtc(
+    flightDate.dayNumber + (arrival.dayOffset ?? 0),
+    arrival.hour,
+    arrival.minute,
+    destinationZone
+  );
+  // Without an explicit "+1", an arrival clock time before departure means the next day
+  if (arrival.dayOffset === null && arrivalUtc <= departureUtc) {
+    arrivalUtc = zonedTimeToUtc(flightDate.dayNumber + 1, arrival.hour, arrival.minute, destinationZone);
+  }
+
+  const durationMinutes = Math.round((arrivalUtc - departureUtc) / 60_000);
+  if (durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) return null;
+
+  const localArrival = toLocal(arrivalUtc, destinationZone);
+  const overnight = localArrival.dayNumber > flightDate.dayNumber;
+  const redEye = overnight && (departure.hour >= 21 || departure.hour < 3) && localArrival.hour >= 4 && localArrival.hour < 10;
+
+  return { departureUtc, arrivalUtc, durationMinutes, overnight, redEye };
+}
@@ -0,0 +1,62 @@
+/**
+ * IndexedDB persistence for flight drafts, so edits made in the browser survive
+ * reloads until they're copied into the sheet.
+ */
+
+import type { FlightDraft } from '../types';
+
+const DB_NAME = 'rsmb-flights';
+const DB_VERSION = 1;
+const DRAFTS_STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    dbPromise = null; // allow a retry, e.g. after the user frees up storage
+    throw err;
+  });
+  return dbPromise;
+}
+
+// Run one request against the drafts store and resolve with its result once the transaction commits
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(DRAFTS_STORE, mode);
+    const request = run(transaction.objectStore(DRAFTS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// All drafts in the order they were made, so editing one doesn't renumber the added flights
+export async function loadDrafts(): Promise<FlightDraft[]> {
+  const drafts = await withStore<FlightDraft[]>('readonly', (store) => store.getAll());
+  const createdAt = (draft: FlightDraft) => draft.createdAt ?? draft.updatedAt;
+  return drafts.sort((a, b) => createdAt(a).localeCompare(createdAt(b)));
+}
+
+export async function saveDraft(draft: FlightDraft): Promise<void> {
+  await withStore('readwrite', (store) => store.put(draft));
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+export async function clearDrafts(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear());
+}
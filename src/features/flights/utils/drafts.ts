@@ -0,0 +1,196 @@
+/**
+ * Flight drafts: additions, edits and deletions made in the browser on top of the
+ * published flights. Drafts are checked with the sync QA/QC rules, overlaid on the
+ * loaded data until they're made in the sheet, and exported as flights.csv rows
+ * to add and rows to remove.
+ */
+
+import type {
+  AirportsCollection,
+  AirportTable,
+  FlightDraft,
+  FlightDraftAction,
+  FlightProperties,
+  FlightRecord,
+  FlightsCollection,
+  ValidatedDraft,
+} from '../types';
+import { checkRecord, duplicateKey, emptyRecord } from '../importers/records';
+import { countAirportVisits, toFlightFeature } from './collections';
+import { escapeCSV } from './export';
+
+// flights.csv columns in sheet order; the first five are always written
+const CSV_COLUMNS = [
+  'date',
+  'airline',
+  'flightNumber',
+  'origin',
+  'destination',
+  'notes',
+  'departureTime',
+  'arrivalTime',
+  'trip',
+  'traveler',
+] as const satisfies readonly (keyof FlightRecord)[];
+const REQUIRED_COLUMNS = 5;
+
+export const DRAFT_ACTION_LABELS: Record<FlightDraftAction, string> = {
+  add: 'Add',
+  edit: 'Edit',
+  delete: 'Delete',
+};
+
+export function createDraft(action: FlightDraftAction, record: FlightRecord, original: FlightProperties | null): FlightDraft {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    action,
+    flightId: original?.id ?? null,
+    record,
+    original: original && recordFromFlight(original),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// flights.csv columns for a loaded flight, to edit or delete it
+export function recordFromFlight(flight: FlightProperties): FlightRecord {
+  return {
+    ...emptyRecord(0),
+    date: flight.date,
+    airline: flight.airline,
+    flightNumber: flight.flightNumber,
+    origin: flight.origin_code,
+    destination: flight.destination_code,
+    notes: flight.notes,
+    departureTime: flight.departureTime,
+    arrivalTime: flight.arrivalTime,
+    trip: flight.tripId,
+    traveler: flight.traveler,
+  };
+}
+
+function sameRecord(a: FlightRecord, b: FlightRecord): boolean {
+  return CSV_COLUMNS.every((column) => a[column].trim() === b[column].trim());
+}
+
+// Short description of a record, e.g. "6/15/2008 LAX → IAH"
+export function describeRecord(record: FlightRecord): string {
+  return `${record.date} ${record.origin.toUpperCase()} → ${record.destination.toUpperCase()}`.trim();
+}
+
+/**
+ * Check drafts against the published flights. Edits and additions use the sync
+ * QA/QC rules (times included, since the draft goes straight into the sheet) and
+ * warn about possible duplicates; edits and deletions need their flight to still
+ * be published as it was. Flight ids are row numbers, so after a sheet sync moves
+ * rows an id can point at another flight; such drafts are stale and not applied.
+ * Added flights get ids after the published ones, in the order they were made.
+ */
+export function validateDrafts(drafts: FlightDraft[], published: FlightsCollection, airports: AirportTable): ValidatedDraft[] {
+  const publishedById = new Map(published.features.map((f) => [f.properties.id, f.properties]));
+  let nextId = published.features.reduce((max, f) => Math.max(max, f.properties.id), 0) + 1;
+
+  // Duplicates are checked against published flights that stay, then earlier drafts
+  const replaced = new Set(drafts.map((draft) => draft.flightId).filter((id) => id !== null));
+  const seenFlights = new Map<string, string>();
+  published.features.forEach(({ properties }) => {
+    if (!replaced.has(properties.id)) seenFlights.set(duplicateKey(properties), `published flight ${properties.date}`);
+  });
+
+  return drafts.map((draft, index) => {
+    const original = draft.flightId !== null ? publishedById.get(draft.flightId) : undefined;
+    if (draft.action !== 'add' && !original) {
+      return { draft, flight: null, errors: ['Flight is no longer in the published data'], warnings: [] };
+    }
+    if (original && draft.original && !sameRecord(draft.original, recordFromFlight(original))) {
+      return {
+        draft,
+        flight: null,
+        errors: [`Published flight has changed since this draft was made (now ${describeRecord(recordFromFlight(original))})`],
+        warnings: [],
+      };
+    }
+    if (draft.action === 'delete') {
+      return { draft, flight: null, errors: [], warnings: [] };
+    }
+
+    // Edited flights keep their id, so links to them still work
+    const id = original?.id ?? nextId;
+    const checked = checkRecord({ ...draft.record, row: index + 1 }, airports, id, true);
+    const { flight } = checked;
+    if (!flight) return { draft, flight: null, errors: checked.errors, warnings: checked.warnings };
+    if (!original) nextId++;
+
+    const warnings = [...checked.warnings];
+    const key = duplicateKey(flight);
+    const duplicateOf = seenFlights.get(key);
+    if (duplicateOf) {
+      warnings.push(`Possible duplicate of ${duplicateOf} (${flight.origin_code} → ${flight.destination_code})`);
+    } else {
+      seenFlights.set(key, `draft ${index + 1}`);
+    }
+
+    return { draft, flight, errors: [], warnings };
+  });
+}
+
+/**
+ * Overlay valid drafts on the published flights, and recount the airports' visits
+ * from the result (drafts can add airports, or leave one with no flights). Drafts
+ * with errors are left out.
+ */
+export function applyDrafts(
+  flights: FlightsCollection,
+  airports: AirportsCollection,
+  drafts: ValidatedDraft[],
+  airportTable: AirportTable
+): { flights: FlightsCollection; airports: AirportsCollection } {
+  const replacements = new Map<number, FlightProperties | null>(); // null removes the flight
+  const additions: FlightProperties[] = [];
+  drafts.forEach(({ draft, flight, errors }) => {
+    if (errors.length > 0) return;
+    if (draft.action === 'add') {
+      if (flight) additions.push(flight);
+    } else if (draft.flightId !== null) {
+      replacements.set(draft.flightId, draft.action === 'delete' ? null : flight);
+    }
+  });
+  if (replacements.size === 0 && additions.length === 0) return { flights, airports };
+
+  const flightFeatures = flights.features.flatMap((feature) => {
+    if (!replacements.has(feature.properties.id)) return [feature];
+    const replacement = replacements.get(feature.properties.id);
+    return replacement ? [toFlightFeature(replacement)] : [];
+  });
+  flightFeatures.push(...additions.map(toFlightFeature));
+
+  return {
+    flights: { ...flights, features: flightFeatures },
+    airports: { ...airports, features: countAirportVisits(flightFeatures, airportTable, airports.features) },
+  };
+}
+
+// One flights.csv row with every column, ready to paste into the sheet
+export function recordToCSVRow(record: FlightRecord): string {
+  return CSV_COLUMNS.map((column) => escapeCSV(record[column].trim())).join(',');
+}
+
+// Records as flights.csv; optional columns are only written when a record uses them
+function recordsToCSV(records: FlightRecord[]): string {
+  const columns = CSV_COLUMNS.filter((column, i) =>
+    i < REQUIRED_COLUMNS || records.some((record) => record[column].trim())
+  );
+  const rows = records.map((record) => columns.map((column) => record[column].trim()));
+  return [columns, ...rows].map((row) => row.map(escapeCSV).join(',')).join('\n') + '\n';
+}
+
+// flights.csv rows to add to the sheet: added flights and the new version of edited ones
+export function draftsToAddedRows(drafts: FlightDraft[]): string {
+  return recordsToCSV(drafts.filter((draft) => draft.action !== 'delete').map((draft) => draft.record));
+}
+
+// flights.csv rows to remove from the sheet: edited and deleted flights as they were published
+export function draftsToRemovedRows(drafts: FlightDraft[]): string {
+  return recordsToCSV(drafts.flatMap((draft) => (draft.action !== 'add' && draft.original ? [draft.original] : [])));
+}
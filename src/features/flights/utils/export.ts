@@ -0,0 +1,217 @@
+/**
+ * Export the flights currently on the globe (and their airports) for other tools.
+ *
+ * Flights are written as densified great-circle tracks split at the antimeridian,
+ * so they draw correctly in flat-map GIS tools, Google Earth and GPS apps.
+ * Attributes are the scalar FlightProperties fields (plus the measured duration
+ * when times are logged), so exports stay in step with the data as it grows.
+ */
+
+import type { ExportFormat, FlightProperties, GlobePoint } from '../types';
+import { greatCircleLines } from './geo';
+
+type Attributes = Record<string, string | number>;
+
+// Scalar FlightProperties fields; parsed objects (flightDate, timing) are flattened or dropped
+function flightAttributes(flight: FlightProperties): Attributes {
+  const attributes: Attributes = {};
+  Object.entries(flight).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') attributes[key] = value;
+  });
+  attributes.durationMinutes = flight.timing?.durationMinutes ?? '';
+  return attributes;
+}
+
+function airportAttributes(point: GlobePoint): Attributes {
+  const attributes: Attributes = {};
+  Object.entries(point.airport).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') attributes[key] = value;
+    else if (Array.isArray(value)) attributes[key] = value.join(';');
+  });
+  attributes.lat = point.lat;
+  attributes.lon = point.lng;
+  return attributes;
+}
+
+function flightLines(flight: FlightProperties): [number, number][][] {
+  return greatCircleLines(flight.origin_lat, flight.origin_lon, flight.destination_lat, flight.destination_lon);
+}
+
+function flightName(flight: FlightProperties): string {
+  const route = `${flight.origin_code} → ${flight.destination_code}`;
+  return flight.flightNumber ? `${flight.flightNumber} ${route}` : route;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e5) / 1e5;
+}
+
+function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function escapeCSV(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toGeoJSON(flights: FlightProperties[], airports: GlobePoint[]): string {
+  const features = [
+    ...flights.map((flight) => {
+      const lines = flightLines(flight).map((line) => line.map(([lon, lat]) => [round(lon), round(lat)]));
+      return {
+        type: 'Feature',
+        properties: { featureType: 'flight', ...flightAttributes(flight) },
+        geometry: lines.length === 1
+          ? { type: 'LineString', coordinates: lines[0] }
+          : { type: 'MultiLineString', coordinates: lines },
+      };
+    }),
+    ...airports.map((point) => ({
+      type: 'Feature',
+      properties: { featureType: 'airport', ...airportAttributes(point) },
+      geometry: { type: 'Point', coordinates: [point.lng, point.lat] },
+    })),
+  ];
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+function kmlExtendedData(attributes: Attributes): string {
+  return `<ExtendedData>${Object.entries(attributes)
+    .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+    .join('')}</ExtendedData>`;
+}
+
+function toKML(flights: FlightProperties[], airports: GlobePoint[]): string {
+  const flightPlacemarks = flights.map((flight) => {
+    const lines = flightLines(flight)
+      .map((line) => `<LineString><tessellate>1</tessellate><coordinates>${line.map(([lon, lat]) => `${round(lon)},${round(lat)}`).join(' ')}</coordinates></LineString>`)
+      .join('');
+    return `    <Placemark>
+      <name>${escapeXml(flightName(flight))}</name>
+      <TimeStamp><when>${escapeXml(flight.flightDate.iso.slice(0, 10))}</when></TimeStamp>
+      <styleUrl>#flight</styleUrl>
+      ${kmlExtendedData(flightAttributes(flight))}
+      <MultiGeometry>${lines}</MultiGeometry>
+    </Placemark>`;
+  });
+  const airportPlacemarks = airports.map((point) => `    <Placemark>
+      <name>${escapeXml(point.airport.code)}</name>
+      <description>${escapeXml(point.airport.name)}</description>
+      <styleUrl>#airport</styleUrl>
+      ${kmlExtendedData(airportAttributes(point))}
+      <Point><coordinates>${point.lng},${point.lat}</coordinates></Point>
+    </Placemark>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+  <name>Flights</name>
+  <Style id="flight"><LineStyle><color>fff755a8</color><width>2</width></LineStyle></Style>
+  <Style id="airport"><IconStyle><color>ff4dd3fc</color></IconStyle></Style>
+  <Folder>
+    <name>Flights (${flights.length})</name>
+${flightPlacemarks.join('\n')}
+  </Folder>
+  <Folder>
+    <name>Airports (${airports.length})</name>
+${airportPlacemarks.join('\n')}
+  </Folder>
+</Document>
+</kml>
+`;
+}
+
+// GPX has no generic attribute slots, so fields go in a namespaced <extensions> block
+function gpxExtensions(attributes: Attributes): string {
+  return `<extensions>${Object.entries(attributes)
+    .map(([key, value]) => `<flight:${key}>${escapeXml(value)}</flight:${key}>`)
+    .join('')}</extensions>`;
+}
+
+function toGPX(flights: FlightProperties[], airports: GlobePoint[]): string {
+  const waypoints = airports.map((point) => `  <wpt lat="${point.lat}" lon="${point.lng}">
+    <name>${escapeXml(point.airport.code)}</name>
+    <desc>${escapeXml(point.airport.name)}</desc>
+    <type>airport</type>
+    ${gpxExtensions(airportAttributes(point))}
+  </wpt>`);
+  const tracks = flights.map((flight) => {
+    const segments = flightLines(flight)
+      .map((line) => `<trkseg>${line.map(([lon, lat]) => `<trkpt lat="${round(lat)}" lon="${round(lon)}"/>`).join('')}</trkseg>`)
+      .join('');
+    return `  <trk>
+    <name>${escapeXml(flightName(flight))}</name>
+    <desc>${escapeXml(`${flight.date} ${flight.airline}`.trim())}</desc>
+    <type>flight</type>
+    ${gpxExtensions(flightAttributes(flight))}
+    ${segments}
+  </trk>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="rsmb.tv flights" xmlns="http://www.topografix.com/GPX/1/1" xmlns:flight="urn:rsmb:flights">
+${waypoints.join('\n')}
+${tracks.join('\n')}
+</gpx>
+`;
+}
+
+function toCSVRows(rows: Attributes[]): string {
+  if (rows.length === 0) return '';
+  const header = Object.keys(rows[0]);
+  return [header.join(','), ...rows.map((row) => header.map((key) => escapeCSV(row[key] ?? '')).join(','))].join('\n') + '\n';
+}
+
+// Flights with the track as a WKT column, for spreadsheets and GIS tools that read CSV
+function toFlightsCSV(flights: FlightProperties[]): string {
+  return toCSVRows(flights.map((flight) => {
+    const lines = flightLines(flight).map((line) => `(${line.map(([lon, lat]) => `${round(lon)} ${round(lat)}`).join(', ')})`);
+    return { ...flightAttributes(flight), wkt: `MULTILINESTRING (${lines.join(', ')})` };
+  }));
+}
+
+const EXPORTS: Record<ExportFormat, { extension: string; mimeType: string; build: (flights: FlightProperties[], airports: GlobePoint[]) => string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', build: toGeoJSON },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', build: toKML },
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', build: toGPX },
+  'csv-flights': { extension: 'csv', mimeType: 'text/csv', build: (flights) => toFlightsCSV(flights) },
+  'csv-airports': { extension: 'csv', mimeType: 'text/csv', build: (_, airports) => toCSVRows(airports.map(airportAttributes)) },
+};
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML (Google Earth)',
+  gpx: 'GPX',
+  'csv-flights': 'CSV – flights',
+  'csv-airports': 'CSV – airports',
+};
+
+// Build the export and trigger a browser download
+export function downloadExport(
+  format: ExportFormat,
+  flights: FlightProperties[],
+  airports: GlobePoint[],
+  baseName: string
+): void {
+  const { extension, mimeType, build } = EXPORTS[format];
+  const suffix = format === 'csv-airports' ? '-airports' : '';
+  downloadFile(build(flights, airports), mimeType, `${baseName}${suffix}.${extension}`);
+}
+
+// Trigger a browser download of generated text
+export function downloadFile(contents: string, mimeType: string, fileName: string): void {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
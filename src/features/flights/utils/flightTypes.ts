@@ -0,0 +1,81 @@
+import type { FlightProperties, FlightType, HaulLength, HaulThresholds } from '../types';
+import { calculateDistance } from './geo';
+
+export const FLIGHT_TYPES: FlightType[] = ['domestic', 'international', 'intercontinental'];
+
+export const FLIGHT_TYPE_LABELS: Record<FlightType, string> = {
+  domestic: 'Domestic',
+  international: 'International',
+  intercontinental: 'Intercontinental',
+};
+
+export const HAUL_LENGTHS: HaulLength[] = ['short', 'medium', 'long'];
+
+export const HAUL_LABELS: Record<HaulLength, string> = {
+  short: 'Short-haul',
+  medium: 'Medium-haul',
+  long: 'Long-haul',
+};
+
+// Great-circle km: short-haul below shortMax, long-haul from longMin, medium-haul in between
+export const DEFAULT_HAUL_THRESHOLDS: HaulThresholds = { shortMax: 1500, longMin: 4000 };
+
+// Intercontinental flights are international too, as in the stats panel counts
+export function isFlightOfType(flight: FlightProperties, type: FlightType): boolean {
+  switch (type) {
+    case 'domestic': return flight.origin_country === flight.destination_country;
+    case 'international': return flight.origin_country !== flight.destination_country;
+    case 'intercontinental': return flight.origin_continent !== flight.destination_continent;
+  }
+}
+
+export function getHaulLength(distance: number, thresholds: HaulThresholds): HaulLength {
+  if (distance < thresholds.shortMax) return 'short';
+  if (distance >= thresholds.longMin) return 'long';
+  return 'medium';
+}
+
+export function getFlightHaul(flight: FlightProperties, thresholds: HaulThresholds): HaulLength {
+  const distance = calculateDistance(flight.origin_lat, flight.origin_lon, flight.destination_lat, flight.destination_lon);
+  return getHaulLength(distance, thresholds);
+}
+
+// "under 1,500 km", "1,500–4,000 km", "4,000 km and over"
+export function formatHaulRange(haul: HaulLength, thresholds: HaulThresholds): string {
+  const shortMax = thresholds.shortMax.toLocaleString();
+  const longMin = thresholds.longMin.toLocaleString();
+  switch (haul) {
+    case 'short': return `under ${shortMax} km`;
+    case 'medium': return `${shortMax}–${longMin} km`;
+    case 'long': return `${longMin} km and over`;
+  }
+}
+
+// Parse the `type` URL parameter, ignoring unknown values
+export function parseFlightType(value: string | null): FlightType | null {
+  return FLIGHT_TYPES.find((type) => type === value) ?? null;
+}
+
+// Parse the `haul` URL parameter, ignoring unknown values
+export function parseHaulLength(value: string | null): HaulLength | null {
+  return HAUL_LENGTHS.find((haul) => haul === value) ?? null;
+}
+
+// Parse the `haul_km` URL parameter ("1500-4000"), falling back to the defaults
+export function parseHaulThresholds(value: string | null): HaulThresholds {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  if (!match) return DEFAULT_HAUL_THRESHOLDS;
+  const shortMax = Number(match[1]);
+  const longMin = Number(match[2]);
+  return shortMax > 0 && shortMax < longMin ? { shortMax, longMin } : DEFAULT_HAUL_THRESHOLDS;
+}
+
+// Store thresholds in `haul_km`, leaving it out for the defaults
+export function writeHaulThresholds(params: URLSearchParams, thresholds: HaulThresholds): void {
+  const { shortMax, longMin } = thresholds;
+  if (shortMax === DEFAULT_HAUL_THRESHOLDS.shortMax && longMin === DEFAULT_HAUL_THRESHOLDS.longMin) {
+    params.delete('haul_km');
+  } else {
+    params.set('haul_km', `${shortMax}-${longMin}`);
+  }
+}
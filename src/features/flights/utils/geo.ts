@@ -0,0 +1,76 @@
+// Calculate distance between two points using Haversine formula
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return R * c;
+}
+
+// Estimate flight time based on distance (rough average speed of 800 km/h + 1 hour for takeoff/landing)
+export function estimateFlightTime(distanceKm: number): number {
+  return distanceKm / 800 + 1;
+}
+
+const toRadians = (deg: number) => deg * Math.PI / 180;
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+
+// Roughly one vertex per 100 km keeps long-haul curves smooth without bloating exports
+const KM_PER_SEGMENT = 100;
+const MAX_SEGMENTS = 256;
+
+// Densified great-circle path as [lon, lat] positions (GeoJSON order), endpoints included
+export function greatCirclePoints(lat1: number, lon1: number, lat2: number, lon2: number): [number, number][] {
+  const phi1 = toRadians(lat1), lambda1 = toRadians(lon1);
+  const phi2 = toRadians(lat2), lambda2 = toRadians(lon2);
+  const distance = calculateDistance(lat1, lon1, lat2, lon2);
+  const angle = distance / 6371; // central angle in radians
+  const segments = Math.min(MAX_SEGMENTS, Math.max(1, Math.ceil(distance / KM_PER_SEGMENT)));
+
+  if (angle === 0) return [[lon1, lat1], [lon2, lat2]];
+
+  const points: [number, number][] = [];
+  for (let i = 0; i <= segments; i++) {
+    // Spherical linear interpolation between the two endpoints
+    const f = i / segments;
+    const a = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const b = Math.sin(f * angle) / Math.sin(angle);
+    const x = a * Math.cos(phi1) * Math.cos(lambda1) + b * Math.cos(phi2) * Math.cos(lambda2);
+    const y = a * Math.cos(phi1) * Math.sin(lambda1) + b * Math.cos(phi2) * Math.sin(lambda2);
+    const z = a * Math.sin(phi1) + b * Math.sin(phi2);
+    points.push([toDegrees(Math.atan2(y, x)), toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y)))]);
+  }
+  // Keep the exact endpoints (avoids -180/180 flips from rounding)
+  points[0] = [lon1, lat1];
+  points[points.length - 1] = [lon2, lat2];
+  return points;
+}
+
+// Split a path wherever it crosses the antimeridian so flat maps don't draw it across the whole world
+export function splitAtAntimeridian(points: [number, number][]): [number, number][][] {
+  const lines: [number, number][][] = [[points[0]]];
+  for (let i = 1; i < points.length; i++) {
+    const [prevLon, prevLat] = points[i - 1];
+    const [lon, lat] = points[i];
+    if (Math.abs(lon - prevLon) > 180) {
+      // Interpolate the latitude where the segment meets ±180
+      const edge = prevLon > 0 ? 180 : -180;
+      const unwrappedLon = lon + (prevLon > 0 ? 360 : -360);
+      const t = (edge - prevLon) / (unwrappedLon - prevLon);
+      const crossingLat = prevLat + t * (lat - prevLat);
+      lines[lines.length - 1].push([edge, crossingLat]);
+      lines.push([[-edge, crossingLat]]);
+    }
+    lines[lines.length - 1].push([lon, lat]);
+  }
+  return lines;
+}
+
+// Great-circle track between two airports, split at the antimeridian
+export function greatCircleLines(lat1: number, lon1: number, lat2: number, lon2: number): [number, number][][] {
+  return splitAtAntimeridian(greatCirclePoints(lat1, lon1, lat2, lon2));
+}
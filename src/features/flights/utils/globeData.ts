@@ -0,0 +1,1139 @@
+/**
+ * Globe layers and statistics for a filter state.
+ *
+ * Pure functions over the loaded flights and airports, so they can run in
+ * workers/globeData.worker.ts without touching the main thread.
+ */
+
+import type {
+  AirportsCollection,
+  FlightsCollection,
+  FlightProperties,
+  GlobeArc,
+  GlobeStaticArc,
+  GlobePoint,
+  GlobeLabel,
+  GlobeData,
+  GlobeFilters,
+  RouteStats,
+  FlightStats,
+  FlightDate,
+  Airline,
+  AllianceFilter,
+  AllianceStat,
+  SharedFlight,
+  TravelerCount,
+  ComparisonSide,
+} from '../types';
+import { compareFlightDates, formatFlightDate } from './dates';
+import { calculateDistance, estimateFlightTime } from './geo';
+import { ALLIANCES, ALLIANCE_COLORS, getFlightAlliance } from './alliances';
+import { COMPARISON_COLORS } from './comparison';
+import { computeMonthlyCounts, isFlightInDateRange } from './dateRange';
+import { isFlightInPlaces } from './places';
+import { isFlightInAirlineFilter } from './airlineFilter';
+import { FLIGHT_TYPES, getFlightHaul, isFlightOfType } from './flightTypes';
+
+// Create route key (alphabetically sorted for consistency)
+export function getRouteKey(origin: string, destination: string): string {
+  return [origin, destination].sort().join('-');
+}
+
+// Color scales for different modes
+const YEAR_COLORS: Record<number, string> = {
+  2008: '#3b82f6', 2009: '#6366f1', 2010: '#8b5cf6', 2011: '#a855f7',
+  2012: '#c026d3', 2013: '#d946ef', 2014: '#e879f9', 2015: '#f472b6',
+  2016: '#fb7185', 2017: '#f43f5e', 2018: '#ef4444', 2019: '#f97316',
+  2020: '#fb923c', 2021: '#fbbf24', 2022: '#facc15', 2023: '#a3e635',
+  2024: '#4ade80', 2025: '#22d3ee',
+};
+
+function getYearColor(year: number): string {
+  return YEAR_COLORS[year] || '#a855f7';
+}
+
+function getFrequencyColor(count: number, maxCount: number): string {
+  const ratio = count / maxCount;
+  if (ratio > 0.7) return '#ef4444'; // red - very frequent
+  if (ratio > 0.4) return '#f97316'; // orange - frequent
+  if (ratio > 0.2) return '#facc15'; // yellow - moderate
+  return '#a855f7'; // purple - occasional
+}
+
+// Registry brand color, falling back to a hash of the name for airlines not in the registry
+function getAirlineColor(airline: string, registry: Map<string, Airline>): string {
+  const entry = registry.get(airline);
+  if (entry) return entry.color;
+  const hash = airline.split('').reduce((a, b) => a + b.charCodeAt(0), 0);
+  return `hsl(${hash % 360}, 70%, 60%)`;
+}
+
+const EMPTY_FLIGHT_STATS: FlightStats =   {
+    totalFlights: 0,
+    totalAirports: 0,
+    totalCountries: 0,
+    totalAirlines: 0,
+    totalDistance: 0,
+    years: [],
+    monthlyCounts: [],
+    busiestRoutes: [],
+    busiestAirport: null,
+    longestFlight: null,
+    shortestFlight: null,
+    internationalFlights: 0,
+    intercontinentalFlights: 0,
+    averageDistance: 0,
+    totalFlightTime: 0,
+    measuredFlightTime: 0,
+    measuredFlights: 0,
+    estimatedFlights: 0,
+    redEyeFlights: 0,
+    overnightFlights: 0,
+    uniqueRoutes: 0,
+    mostVisitedCountry: null,
+    firstFlight: null,
+    lastFlight: null,
+    selectedAirportInfo: null,
+    airlineCounts: [],
+    allianceStats: [],
+    flightTypeCounts: { domestic: 0, international: 0, intercontinental: 0 },
+    haulCounts: { short: 0, medium: 0, long: 0 },
+    travelerCounts: [],
+    sharedFlights: [],
+    topCountries: [],
+    topRegions: [],
+    topContinents: [],
+    highestAirport: null,
+    lowestAirport: null,
+  };
+
+// Nothing to show yet (data still loading, or the first result hasn't arrived)
+export const EMPTY_GLOBE_DATA: GlobeData = {
+  arcsData: [],
+  staticArcsData: [],
+  pointsData: [],
+  labelsData: [],
+  flightStats: EMPTY_FLIGHT_STATS,
+  routeStats: new Map(),
+  comparison: null,
+};
+
+// Highlight for flights several travelers flew together
+const SHARED_ARC_COLOR = 'rgba(250, 204, 21, 0.9)';
+
+// The same flight as logged by each traveler: date and direction of travel
+function getSharedFlightKey(flight: FlightProperties): string {
+  return `${flight.flightDate.iso.slice(0, 10)}|${flight.origin_code}|${flight.destination_code}`;
+}
+
+// Travelers by flight key, for flights logged by more than one named traveler
+function computeSharedFlights(flights: FlightsCollection): Map<string, string[]> {
+  const travelersByKey = new Map<string, Set<string>>();
+  flights.features.forEach((f) => {
+    const traveler = f.properties.traveler;
+    if (!traveler) return;
+    const key = getSharedFlightKey(f.properties);
+    if (!travelersByKey.has(key)) travelersByKey.set(key, new Set());
+    travelersByKey.get(key)!.add(traveler);
+  });
+
+  const shared = new Map<string, string[]>();
+  travelersByKey.forEach((travelers, key) => {
+    if (travelers.size > 1) shared.set(key, Array.from(travelers).sort());
+  });
+  return shared;
+}
+
+// Flights per named traveler across the whole dataset (for the traveler picker)
+function computeTravelerCounts(flights: FlightsCollection, sharedFlights: Map<string, string[]>): TravelerCount[] {
+  const counts = new Map<string, TravelerCount>();
+  flights.features.forEach((f) => {
+    const traveler = f.properties.traveler;
+    if (!traveler) return;
+    const entry = counts.get(traveler) ?? { traveler, count: 0, sharedFlights: 0 };
+    entry.count++;
+    if (sharedFlights.has(getSharedFlightKey(f.properties))) entry.sharedFlights++;
+    counts.set(traveler, entry);
+  });
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.traveler.localeCompare(b.traveler));
+}
+
+// Compute route statistics (for all flights, used for coloring)
+function computeRouteStats(flights: FlightsCollection): Map<string, RouteStats> {
+  const stats = new Map<string, RouteStats>();
+  
+  flights.features.forEach((f) => {
+    const props = f.properties;
+    const routeKey = getRouteKey(props.origin_code, props.destination_code);
+    const year = props.flightDate.year;
+    
+    if (!stats.has(routeKey)) {
+      stats.set(routeKey, {
+        routeKey,
+        origin: props.origin_code,
+        destination: props.destination_code,
+        count: 0,
+        years: [],
+        dates: [],
+      });
+    }
+    
+    const route = stats.get(routeKey)!;
+    route.count++;
+    if (!route.years.includes(year)) {
+      route.years.push(year);
+    }
+    route.dates.push(formatFlightDate(props.flightDate));
+  });
+  
+  return stats;
+}
+
+// Compute overall statistics - filtered by selected year, place, airport, airline, flight type, haul and alliance.
+// `flights` is already narrowed to the selected traveler.
+function computeFlightStats(
+  flights: FlightsCollection,
+  airports: AirportsCollection,
+  airlineRegistry: Map<string, Airline>,
+  travelerCounts: TravelerCount[],
+  sharedFlightTravelers: Map<string, string[]>,
+  filters: GlobeFilters
+): FlightStats {
+  const { selectedYear, dateRange, places, flightType, haul, haulThresholds, selectedAirport, airlines: airlineFilter, selectedAlliance } = filters;
+
+  // Compute airline counts from all flights (for the clickable buttons, before other filters)
+  const allAirlineCounts: Record<string, number> = {};
+  flights.features.forEach(f => {
+    const airline = f.properties.airline;
+    if (airline) {
+      allAirlineCounts[airline] = (allAirlineCounts[airline] || 0) + 1;
+    }
+  });
+  const airlineCounts = Object.entries(allAirlineCounts)
+    .map(([airline, count]) => {
+      const entry = airlineRegistry.get(airline);
+      return {
+        airline,
+        count,
+        designator: entry ? entry.iata || entry.icao : '',
+        color: getAirlineColor(airline, airlineRegistry),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  // Filter flights by selected year, date range and places first
+  let filteredFlights = selectedYear === null && dateRange === null && places === null
+    ? flights.features 
+    : flights.features.filter(f =>
+        (selectedYear === null || f.properties.flightDate.year === selectedYear) &&
+        isFlightInDateRange(f.properties, dateRange) &&
+        isFlightInPlaces(f.properties, places)
+      );
+  
+  // Further filter by selected airport if one is selected
+  const airportFilteredFlights = selectedAirport
+    ? filteredFlights.filter(f => 
+        f.properties.origin_code === selectedAirport || 
+        f.properties.destination_code === selectedAirport
+      )
+    : filteredFlights;
+  
+  // Further filter by the included and excluded airlines
+  const airlineFilteredFlights = airlineFilter
+    ? airportFilteredFlights.filter(f => isFlightInAirlineFilter(f.properties, airlineFilter))
+    : airportFilteredFlights;
+  
+  // Flight type and haul breakdown of the other filters' flights, so every category stays selectable
+  const flightTypeCounts = { domestic: 0, international: 0, intercontinental: 0 };
+  const haulCounts = { short: 0, medium: 0, long: 0 };
+  airlineFilteredFlights.forEach(f => {
+    if (selectedAlliance && getFlightAlliance(f.properties) !== selectedAlliance) return;
+    FLIGHT_TYPES.forEach(type => {
+      if (isFlightOfType(f.properties, type)) flightTypeCounts[type]++;
+    });
+    haulCounts[getFlightHaul(f.properties, haulThresholds)]++;
+  });
+
+  // Further filter by flight type and haul length if selected
+  const typeFilteredFlights = flightType || haul
+    ? airlineFilteredFlights.filter(f =>
+        (!flightType || isFlightOfType(f.properties, flightType)) &&
+        (!haul || getFlightHaul(f.properties, haulThresholds) === haul)
+      )
+    : airlineFilteredFlights;
+
+  // Alliance breakdown of the flights so far, so every alliance stays selectable
+  const allianceTotals = new Map<AllianceFilter, { flights: number; distance: number }>();
+  typeFilteredFlights.forEach(f => {
+    const props = f.properties;
+    const alliance = getFlightAlliance(props);
+    const totals = allianceTotals.get(alliance) ?? { flights: 0, distance: 0 };
+    totals.flights++;
+    totals.distance += calculateDistance(props.origin_lat, props.origin_lon, props.destination_lat, props.destination_lon);
+    allianceTotals.set(alliance, totals);
+  });
+  const allianceStats: AllianceStat[] = ALLIANCES
+    .filter(alliance => allianceTotals.has(alliance))
+    .map(alliance => {
+      const totals = allianceTotals.get(alliance)!;
+      return {
+        alliance,
+        flights: totals.flights,
+        distance: Math.round(totals.distance),
+        share: totals.flights / typeFilteredFlights.length,
+      };
+    })
+    .sort((a, b) => b.flights - a.flights);
+
+  // Further filter by selected alliance if one is selected
+  const allianceFilteredFlights = selectedAlliance
+    ? typeFilteredFlights.filter(f => getFlightAlliance(f.properties) === selectedAlliance)
+    : typeFilteredFlights;
+
+  // Use fully-filtered flights for stats
+  filteredFlights = allianceFilteredFlights;
+
+  const years = new Set<number>();
+  const countries = new Set<string>();
+  const airlines = new Set<string>();
+  const uniqueRouteKeys = new Set<string>();
+  const continentVisitCounts: Record<string, number> = {};
+  const continentNames: Record<string, string> = {};
+  const countryVisitCounts: Record<string, number> = {};
+  const countryDepartureCounts: Record<string, number> = {};
+  const countryArrivalCounts: Record<string, number> = {};
+  const countryNames: Record<string, string> = {};
+  const regionVisitCounts: Record<string, number> = {};
+  const regionNames: Record<string, string> = {};
+  const regionCountries: Record<string, string> = {};
+  const airportVisitCounts: Record<string, number> = {};
+  const airportDepartureCounts: Record<string, number> = {};
+  const airportArrivalCounts: Record<string, number> = {};
+  
+  let totalDistance = 0;
+  let totalFlightTime = 0;
+  let measuredFlightTime = 0;
+  let measuredFlights = 0;
+  let redEyeFlights = 0;
+  let overnightFlights = 0;
+  let internationalFlights = 0;
+  let intercontinentalFlights = 0;
+  let longestFlight: { route: string; distance: number } | null = null;
+  let shortestFlight: { route: string; distance: number } | null = null;
+  let firstFlight: { route: string; date: string; flightDate: FlightDate } | null = null;
+  let lastFlight: { route: string; date: string; flightDate: FlightDate } | null = null;
+
+  filteredFlights.forEach((f) => {
+    const props = f.properties;
+    const year = props.flightDate.year;
+    years.add(year);
+    countries.add(props.origin_country);
+    countries.add(props.destination_country);
+    airlines.add(props.airline);
+    uniqueRouteKeys.add(getRouteKey(props.origin_code, props.destination_code));
+    
+    // Count continent visits (with names for display)
+    continentVisitCounts[props.origin_continent] = (continentVisitCounts[props.origin_continent] || 0) + 1;
+    continentVisitCounts[props.destination_continent] = (continentVisitCounts[props.destination_continent] || 0) + 1;
+    continentNames[props.origin_continent] = props.origin_continentName;
+    continentNames[props.destination_continent] = props.destination_continentName;
+    
+    // Count country visits (with names for display)
+    countryVisitCounts[props.origin_country] = (countryVisitCounts[props.origin_country] || 0) + 1;
+    countryVisitCounts[props.destination_country] = (countryVisitCounts[props.destination_country] || 0) + 1;
+    countryDepartureCounts[props.origin_country] = (countryDepartureCounts[props.origin_country] || 0) + 1;
+    countryArrivalCounts[props.destination_country] = (countryArrivalCounts[props.destination_country] || 0) + 1;
+    // Store country names for lookup
+    countryNames[props.origin_country] = props.origin_countryName;
+    countryNames[props.destination_country] = props.destination_countryName;
+    
+    // Count region visits (with names for display)
+    regionVisitCounts[props.origin_region] = (regionVisitCounts[props.origin_region] || 0) + 1;
+    regionVisitCounts[props.destination_region] = (regionVisitCounts[props.destination_region] || 0) + 1;
+    // Store region names and countries for lookup
+    regionNames[props.origin_region] = props.origin_regionName;
+    regionNames[props.destination_region] = props.destination_regionName;
+    regionCountries[props.origin_region] = props.origin_countryName;
+    regionCountries[props.destination_region] = props.destination_countryName;
+    
+    // Count airport visits for filtered data
+    airportVisitCounts[props.origin_code] = (airportVisitCounts[props.origin_code] || 0) + 1;
+    airportVisitCounts[props.destination_code] = (airportVisitCounts[props.destination_code] || 0) + 1;
+    airportDepartureCounts[props.origin_code] = (airportDepartureCounts[props.origin_code] || 0) + 1;
+    airportArrivalCounts[props.destination_code] = (airportArrivalCounts[props.destination_code] || 0) + 1;
+    
+    // International flight check
+    if (props.origin_country !== props.destination_country) {
+      internationalFlights++;
+    }
+    
+    // Intercontinental flight check
+    if (props.origin_continent !== props.destination_continent) {
+      intercontinentalFlights++;
+    }
+    
+    const distance = calculateDistance(
+      props.origin_lat, props.origin_lon,
+      props.destination_lat, props.destination_lon
+    );
+    totalDistance += distance;
+    // Prefer actual block time from logged departure/arrival times
+    if (props.timing) {
+      const hours = props.timing.durationMinutes / 60;
+      totalFlightTime += hours;
+      measuredFlightTime += hours;
+      measuredFlights++;
+      if (props.timing.redEye) redEyeFlights++;
+      if (props.timing.overnight) overnightFlights++;
+    } else {
+      totalFlightTime += estimateFlightTime(distance);
+    }
+    
+    // Track longest flight
+    if (!longestFlight || distance > longestFlight.distance) {
+      longestFlight = {
+        route: `${props.origin_code} → ${props.destination_code}`,
+        distance,
+      };
+    }
+    
+    // Track shortest flight (minimum 50km to exclude data errors)
+    if (distance > 50 && (!shortestFlight || distance < shortestFlight.distance)) {
+      shortestFlight = {
+        route: `${props.origin_code} → ${props.destination_code}`,
+        distance,
+      };
+    }
+    
+    // Track first and last flights
+    if (!firstFlight || compareFlightDates(props.flightDate, firstFlight.flightDate) < 0) {
+      firstFlight = {
+        route: `${props.origin_code} → ${props.destination_code}`,
+        date: formatFlightDate(props.flightDate),
+        flightDate: props.flightDate,
+      };
+    }
+    if (!lastFlight || compareFlightDates(props.flightDate, lastFlight.flightDate) > 0) {
+      lastFlight = {
+        route: `${props.origin_code} → ${props.destination_code}`,
+        date: formatFlightDate(props.flightDate),
+        flightDate: props.flightDate,
+      };
+    }
+  });
+
+  // Get busiest routes (filtered by year)
+  const filteredRouteStats = new Map<string, RouteStats>();
+  filteredFlights.forEach((f) => {
+    const props = f.properties;
+    const routeKey = getRouteKey(props.origin_code, props.destination_code);
+    const year = props.flightDate.year;
+    
+    if (!filteredRouteStats.has(routeKey)) {
+      filteredRouteStats.set(routeKey, {
+        routeKey,
+        origin: props.origin_code,
+        destination: props.destination_code,
+        count: 0,
+        years: [],
+        dates: [],
+      });
+    }
+    
+    const route = filteredRouteStats.get(routeKey)!;
+    route.count++;
+    if (!route.years.includes(year)) {
+      route.years.push(year);
+    }
+    route.dates.push(formatFlightDate(props.flightDate));
+  });
+  
+  const busiestRoutes = Array.from(filteredRouteStats.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 10);
+
+  // Flights flown together, once per flight however many of the travelers are shown
+  const sharedByKey = new Map<string, { shared: SharedFlight; dayNumber: number }>();
+  filteredFlights.forEach((f) => {
+    const props = f.properties;
+    const key = getSharedFlightKey(props);
+    const travelers = sharedFlightTravelers.get(key);
+    if (!travelers || sharedByKey.has(key)) return;
+    sharedByKey.set(key, {
+      shared: {
+        key,
+        date: formatFlightDate(props.flightDate),
+        origin: props.origin_code,
+        destination: props.destination_code,
+        travelers,
+      },
+      dayNumber: props.flightDate.dayNumber,
+    });
+  });
+  const sharedFlights = Array.from(sharedByKey.values())
+    .sort((a, b) => b.dayNumber - a.dayNumber)
+    .map(({ shared }) => shared);
+
+  // Find busiest airport from filtered flights
+  let busiestAirport: { code: string; count: number; departures: number; arrivals: number } | null = null;
+  Object.entries(airportVisitCounts).forEach(([code, count]) => {
+    if (!busiestAirport || count > busiestAirport.count) {
+      busiestAirport = { 
+        code, 
+        count,
+        departures: airportDepartureCounts[code] || 0,
+        arrivals: airportArrivalCounts[code] || 0,
+      };
+    }
+  });
+
+  // Find most visited country
+  let mostVisitedCountry: { country: string; count: number; departures: number; arrivals: number } | null = null;
+  Object.entries(countryVisitCounts).forEach(([country, count]) => {
+    if (!mostVisitedCountry || count > mostVisitedCountry.count) {
+      mostVisitedCountry = { 
+        country, 
+        count,
+        departures: countryDepartureCounts[country] || 0,
+        arrivals: countryArrivalCounts[country] || 0,
+      };
+    }
+  });
+
+  // Get all years and months for the filter (always from all flights, not filtered)
+  const allYears = new Set<number>();
+  flights.features.forEach(f => allYears.add(f.properties.flightDate.year));
+  const monthlyCounts = computeMonthlyCounts(flights.features.map(f => f.properties));
+
+  // Count filtered airports
+  const filteredAirportCodes = new Set<string>();
+  filteredFlights.forEach(f => {
+    filteredAirportCodes.add(f.properties.origin_code);
+    filteredAirportCodes.add(f.properties.destination_code);
+  });
+
+  // Calculate selected airport info if an airport is selected
+  let selectedAirportInfo: FlightStats['selectedAirportInfo'] = null;
+  if (selectedAirport) {
+    const airportFeature = airports.features.find(a => a.properties.code === selectedAirport);
+    if (airportFeature) {
+      const ap = airportFeature.properties;
+      
+      // Count arrivals and departures to/from this airport in the filtered flights
+      const arrivals = filteredFlights.filter(f => f.properties.destination_code === selectedAirport);
+      const departures = filteredFlights.filter(f => f.properties.origin_code === selectedAirport);
+      
+      // Find first and last visits
+      const sortedByDate = [...filteredFlights].sort((a, b) => 
+        compareFlightDates(a.properties.flightDate, b.properties.flightDate)
+      );
+      const firstVisitFlight = sortedByDate[0];
+      const lastVisitFlight = sortedByDate[sortedByDate.length - 1];
+      
+      // Get first visit info (was it arrival or departure?)
+      let firstVisit: { date: string; from: string; direction: 'arrival' | 'departure' } | null = null;
+      if (firstVisitFlight) {
+        const isArrival = firstVisitFlight.properties.destination_code === selectedAirport;
+        firstVisit = {
+          date: formatFlightDate(firstVisitFlight.properties.flightDate),
+          from: isArrival 
+            ? firstVisitFlight.properties.origin_code 
+            : firstVisitFlight.properties.destination_code,
+          direction: isArrival ? 'arrival' : 'departure',
+        };
+      }
+      
+      // Get last visit info
+      let lastVisit: { date: string; to: string; direction: 'arrival' | 'departure' } | null = null;
+      if (lastVisitFlight) {
+        const isArrival = lastVisitFlight.properties.destination_code === selectedAirport;
+        lastVisit = {
+          date: formatFlightDate(lastVisitFlight.properties.flightDate),
+          to: isArrival 
+            ? lastVisitFlight.properties.origin_code 
+            : lastVisitFlight.properties.destination_code,
+          direction: isArrival ? 'arrival' : 'departure',
+        };
+      }
+      
+      // Count connected airports and countries
+      const connectedSet = new Set<string>();
+      const connectedCountriesSet = new Set<string>();
+      const destinationCounts: Record<string, number> = {};
+      const originCounts: Record<string, number> = {};
+      const airlinesSet = new Set<string>();
+      
+      filteredFlights.forEach(f => {
+        const props = f.properties;
+        airlinesSet.add(props.airline);
+        
+        if (props.origin_code === selectedAirport) {
+          connectedSet.add(props.destination_code);
+          connectedCountriesSet.add(props.destination_country);
+          destinationCounts[props.destination_code] = (destinationCounts[props.destination_code] || 0) + 1;
+        }
+        if (props.destination_code === selectedAirport) {
+          connectedSet.add(props.origin_code);
+          connectedCountriesSet.add(props.origin_country);
+          originCounts[props.origin_code] = (originCounts[props.origin_code] || 0) + 1;
+        }
+      });
+      
+      // Top destinations and origins
+      const topDestinations = Object.entries(destinationCounts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([code, count]) => ({ code, count }));
+      
+      const topOrigins = Object.entries(originCounts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([code, count]) => ({ code, count }));
+      
+      selectedAirportInfo = {
+        code: ap.code,
+        name: ap.name,
+        municipality: ap.municipality,
+        region: ap.region,
+        regionName: ap.regionName,
+        country: ap.country,
+        countryName: ap.countryName,
+        continent: ap.continent,
+        continentName: ap.continentName,
+        elevationFt: ap.elevationFt,
+        elevationM: ap.elevationM,
+        closed: ap.closed,
+        renamedTo: ap.renamedTo,
+        totalVisits: filteredFlights.length,
+        arrivals: arrivals.length,
+        departures: departures.length,
+        firstVisit,
+        lastVisit,
+        connectedAirports: connectedSet.size,
+        connectedCountries: Array.from(connectedCountriesSet),
+        topDestinations,
+        topOrigins,
+        airlines: Array.from(airlinesSet).filter(a => a), // Filter out empty airline names
+      };
+    }
+  }
+
+  // Calculate top countries
+  const topCountries = Object.entries(countryVisitCounts)
+    .map(([code, count]) => ({
+      code,
+      name: countryNames[code] || code,
+      count,
+      departures: countryDepartureCounts[code] || 0,
+      arrivals: countryArrivalCounts[code] || 0,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  // Calculate top regions
+  const topRegions = Object.entries(regionVisitCounts)
+    .map(([code, count]) => ({
+      code,
+      name: regionNames[code] || code,
+      country: regionCountries[code] || '',
+      count,
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  // Calculate top continents
+  const topContinents = Object.entries(continentVisitCounts)
+    .map(([code, count]) => ({ code, name: continentNames[code] || code, count }))
+    .sort((a, b) => b.count - a.count);
+
+  // Find highest and lowest airports from visited airports
+  let highestAirport: { code: string; name: string; elevationFt: number; elevationM: number } | null = null;
+  let lowestAirport: { code: string; name: string; elevationFt: number; elevationM: number } | null = null;
+  
+  // Get airports that were visited in filtered flights
+  airports.features.forEach(ap => {
+    const props = ap.properties;
+    if (!filteredAirportCodes.has(props.code)) return;
+    
+    if (!highestAirport || props.elevationFt > highestAirport.elevationFt) {
+      highestAirport = {
+        code: props.code,
+        name: props.name,
+        elevationFt: props.elevationFt,
+        elevationM: props.elevationM,
+      };
+    }
+    if (!lowestAirport || props.elevationFt < lowestAirport.elevationFt) {
+      lowestAirport = {
+        code: props.code,
+        name: props.name,
+        elevationFt: props.elevationFt,
+        elevationM: props.elevationM,
+      };
+    }
+  });
+
+  return {
+    totalFlights: filteredFlights.length,
+    totalAirports: filteredAirportCodes.size,
+    totalCountries: countries.size,
+    totalAirlines: airlines.size,
+    totalDistance: Math.round(totalDistance),
+    years: Array.from(allYears).sort((a, b) => a - b),
+    monthlyCounts,
+    busiestRoutes,
+    busiestAirport,
+    longestFlight,
+    shortestFlight,
+    internationalFlights,
+    intercontinentalFlights,
+    averageDistance: filteredFlights.length > 0 ? Math.round(totalDistance / filteredFlights.length) : 0,
+    totalFlightTime: Math.round(totalFlightTime),
+    measuredFlightTime: Math.round(measuredFlightTime),
+    measuredFlights,
+    estimatedFlights: filteredFlights.length - measuredFlights,
+    redEyeFlights,
+    overnightFlights,
+    uniqueRoutes: uniqueRouteKeys.size,
+    mostVisitedCountry,
+    firstFlight: firstFlight as { route: string; date: string } | null,
+    lastFlight: lastFlight as { route: string; date: string } | null,
+    selectedAirportInfo,
+    airlineCounts,
+    allianceStats,
+    flightTypeCounts,
+    haulCounts,
+    travelerCounts,
+    sharedFlights,
+    topCountries,
+    topRegions,
+    topContinents,
+    highestAirport,
+    lowestAirport,
+  };
+}
+
+function computeArcs(
+  flights: FlightsCollection,
+  airlineRegistry: Map<string, Airline>,
+  routeStats: Map<string, RouteStats>,
+  sharedFlightTravelers: Map<string, string[]>,
+  filters: GlobeFilters
+): GlobeArc[] {
+  const { colorMode, selectedAirport, showShared } = filters;
+
+  // Max route count for frequency coloring
+  const maxRouteCount = routeStats.size === 0 ? 1 : Math.max(...Array.from(routeStats.values()).map(r => r.count));
+
+  // First, group flights by route to calculate index within each route
+  const flightsByRoute = new Map<string, typeof flights.features>();
+  flights.features.forEach((f) => {
+    const routeKey = getRouteKey(f.properties.origin_code, f.properties.destination_code);
+    if (!flightsByRoute.has(routeKey)) {
+      flightsByRoute.set(routeKey, []);
+    }
+    flightsByRoute.get(routeKey)!.push(f);
+  });
+  
+  // Track which index we're at for each route as we process flights
+  const routeIndexTracker = new Map<string, number>();
+  
+  return flights.features
+    .map((f) => {
+      const props = f.properties;
+      const year = props.flightDate.year;
+      const routeKey = getRouteKey(props.origin_code, props.destination_code);
+      const routeCount = routeStats.get(routeKey)?.count || 1;
+      
+      // Calculate the index of this flight within its route for staggered animation
+      const currentIndex = routeIndexTracker.get(routeKey) || 0;
+      routeIndexTracker.set(routeKey, currentIndex + 1);
+      // Initial gap spreads dots evenly along the route: 0/N, 1/N, 2/N, etc.
+      const dashInitialGap = routeCount > 1 ? currentIndex / routeCount : 0;
+      
+      // Determine color based on mode
+      let color: string | [string, string];
+      switch (colorMode) {
+        case 'year':
+          color = getYearColor(year);
+          break;
+        case 'frequency':
+          color = getFrequencyColor(routeCount, maxRouteCount);
+          break;
+        case 'airline':
+          color = getAirlineColor(props.airline, airlineRegistry);
+          break;
+        case 'alliance':
+          color = ALLIANCE_COLORS[getFlightAlliance(props)];
+          break;
+        default: {
+          // Gradient from purple to white, with opacity based on frequency
+          const baseOpacity = 0.5 + Math.min(routeCount / maxRouteCount, 1) * 0.4;
+          color = [`rgba(180, 150, 255, ${baseOpacity})`, `rgba(255, 255, 255, ${baseOpacity})`];
+        }
+      }
+      
+      // Stroke width using square root scaling for better visual hierarchy
+      // Routes flown once: thin (0.2), busiest routes: thicker (up to 1.0)
+      const normalizedCount = routeCount / maxRouteCount;
+      const sqrtScale = Math.sqrt(normalizedCount);
+      const minStroke = 0.2;
+      const maxStroke = 1.0;
+      const stroke = minStroke + sqrtScale * (maxStroke - minStroke);
+      
+      // Calculate distance for animation speed (constant speed across all routes)
+      const distance = calculateDistance(
+        props.origin_lat, props.origin_lon,
+        props.destination_lat, props.destination_lon
+      );
+      // Base speed: ~1000km takes 3 seconds, so animation time scales with distance
+      const animateTime = Math.max(2000, (distance / 1000) * 3000);
+      
+      // Check if this arc connects to the selected airport
+      const isConnected = selectedAirport && (
+        props.origin_code === selectedAirport || props.destination_code === selectedAirport
+      );
+      const shared = sharedFlightTravelers.has(getSharedFlightKey(props));
+      
+      // Modify color based on selection (and the shared flights view)
+      let finalColor = color;
+      let finalStroke = stroke;
+      if (selectedAirport || showShared) {
+        if ((!selectedAirport || isConnected) && (!showShared || shared)) {
+          finalColor = showShared ? SHARED_ARC_COLOR : ['rgba(0, 255, 255, 0.9)', 'rgba(255, 255, 255, 0.9)'];
+          finalStroke = stroke * 1.5;
+        } else {
+          // Dim non-connected arcs but keep them visible
+          finalColor = typeof color === 'string' 
+            ? color.replace(/[\d.]+\)$/, '0.15)')
+            : [`rgba(180, 150, 255, 0.15)`, `rgba(255, 255, 255, 0.15)`];
+          finalStroke = stroke * 0.7;
+        }
+      }
+      
+      return {
+        startLat: props.origin_lat,
+        startLng: props.origin_lon,
+        endLat: props.destination_lat,
+        endLng: props.destination_lon,
+        color: finalColor,
+        stroke: finalStroke,
+        animateTime,
+        dashLength: 0.01,
+        dashGap: 0.99,
+        dashInitialGap,
+        label: `${props.origin_code} → ${props.destination_code}`,
+        flight: props,
+        year,
+        routeKey,
+        routeCount,
+        shared,
+      };
+    })
+    .filter((arc) => isArcFlightVisible(arc.flight, filters));
+}
+
+// The filters that hide arcs (the airport only highlights); computeArcs and visibleAirportCodes share them
+function isArcFlightVisible(flight: FlightProperties, filters: GlobeFilters): boolean {
+  const { selectedYear, dateRange, places, flightType, haul, haulThresholds, airlines, selectedAlliance } = filters;
+  // Filter by year and date range
+  if (selectedYear !== null && flight.flightDate.year !== selectedYear) return false;
+  if (!isFlightInDateRange(flight, dateRange)) return false;
+  // Filter by country, region and continent
+  if (!isFlightInPlaces(flight, places)) return false;
+  // Filter by airline
+  if (!isFlightInAirlineFilter(flight, airlines)) return false;
+  // Filter by flight type and haul length
+  if (flightType !== null && !isFlightOfType(flight, flightType)) return false;
+  if (haul !== null && getFlightHaul(flight, haulThresholds) !== haul) return false;
+  // Filter by alliance
+  if (selectedAlliance !== null && getFlightAlliance(flight) !== selectedAlliance) return false;
+  return true;
+}
+
+// Airports on the visible arcs when any arc filter or a traveler is selected, null to show every airport
+function visibleAirportCodes(arcsData: GlobeArc[], filters: GlobeFilters): Set<string> | null {
+  const { selectedYear, dateRange, places, flightType, haul, airlines, selectedAlliance, selectedTraveler } = filters;
+  const filtered = selectedYear !== null || dateRange !== null || places !== null || flightType !== null ||
+    haul !== null || airlines !== null || selectedAlliance !== null || selectedTraveler !== null;
+  if (!filtered) return null;
+  
+  const codes = new Set<string>();
+  arcsData.forEach((arc) => {
+    codes.add(arc.flight.origin_code);
+    codes.add(arc.flight.destination_code);
+  });
+  return codes;
+}
+
+function computePoints(
+  airports: AirportsCollection,
+  arcsData: GlobeArc[],
+  filteredAirportCodes: Set<string> | null,
+  filters: GlobeFilters
+): GlobePoint[] {
+  const { selectedAirport } = filters;
+
+  // Find max visit count for scaling
+  const maxVisits = Math.max(...airports.features.map(a => a.properties.visitCount), 1);
+  
+  // Get set of connected airport codes when an airport is selected
+  const connectedAirports = new Set<string>();
+  if (selectedAirport) {
+    connectedAirports.add(selectedAirport);
+    arcsData.forEach((arc) => {
+      if (arc.flight.origin_code === selectedAirport) {
+        connectedAirports.add(arc.flight.destination_code);
+      } else if (arc.flight.destination_code === selectedAirport) {
+        connectedAirports.add(arc.flight.origin_code);
+      }
+    });
+  }
+  
+  return airports.features
+    .filter((a) => filteredAirportCodes === null || filteredAirportCodes.has(a.properties.code))
+    .map((a) => {
+      const props = a.properties;
+      const [lng, lat] = a.geometry.coordinates;
+      
+      // Use square root scaling for proportional symbols (standard cartographic practice)
+      // This prevents high-traffic airports from dominating while keeping small ones visible
+      const normalizedVisits = props.visitCount / maxVisits;
+      const sqrtScale = Math.sqrt(normalizedVisits);
+      
+      // Size range: 0.15 (min) to 0.6 (max) - ensures visibility at all levels
+      const minSize = 0.15;
+      const maxSize = 0.6;
+      let size = minSize + sqrtScale * (maxSize - minSize);
+      
+      // Color intensity based on visits - busier airports are brighter/more saturated
+      // Using purple-to-gold gradient matching the app's aesthetic
+      const hue = 45 - sqrtScale * 15; // Gold (45) to warm yellow (30) for busiest
+      const saturation = 70 + sqrtScale * 30; // 70% to 100% saturation
+      const lightness = 50 + sqrtScale * 15; // 50% to 65% lightness
+      let color = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+      
+      // Highlight selected airport and connected airports
+      if (selectedAirport) {
+        if (props.code === selectedAirport) {
+          // Selected airport: bright cyan, larger
+          color = 'hsl(180, 100%, 60%)';
+          size = Math.max(size * 1.5, 0.5);
+        } else if (connectedAirports.has(props.code)) {
+          // Connected airports: cyan tint
+          color = 'hsl(180, 80%, 55%)';
+          size = size * 1.2;
+        } else {
+          // Dim non-connected airports
+          color = `hsl(${hue}, ${saturation * 0.3}%, ${lightness * 0.5}%)`;
+          size = size * 0.7;
+        }
+      }
+      
+      return {
+        lat,
+        lng,
+        size,
+        color,
+        label: props.code,
+        airport: props,
+      };
+    });
+}
+
+function computeLabels(
+  airports: AirportsCollection,
+  filteredAirportCodes: Set<string> | null
+): GlobeLabel[] {
+  return airports.features
+    .filter((a) => filteredAirportCodes === null || filteredAirportCodes.has(a.properties.code))
+    .map((a) => {
+      const props = a.properties;
+      const [lng, lat] = a.geometry.coordinates;
+      return {
+        lat,
+        lng,
+        text: props.code,
+        color: 'rgba(255, 255, 255, 0.9)',
+        size: 0.4,
+      };
+    });
+}
+
+// Create static arcs for background route lines (one per unique route) with tooltip info
+// Using arcs instead of paths so they follow the same elevated curve as animated dots
+function computeStaticArcs(arcsData: GlobeArc[], selectedAirport: string | null, showShared: boolean): GlobeStaticArc[] {
+  // Group by route to collect all flights on that route
+  const routeArcs = new Map<string, { 
+    startLat: number;
+    startLng: number;
+    endLat: number;
+    endLng: number;
+    stroke: number; 
+    routeCount: number;
+    flights: FlightProperties[];
+    shared: boolean;
+  }>();
+  
+  arcsData.forEach((arc) => {
+    if (!routeArcs.has(arc.routeKey)) {
+      routeArcs.set(arc.routeKey, {
+        startLat: arc.startLat,
+        startLng: arc.startLng,
+        endLat: arc.endLat,
+        endLng: arc.endLng,
+        stroke: arc.stroke * 0.8, // Slightly thinner than animated arcs
+        routeCount: arc.routeCount,
+        flights: [],
+        shared: false,
+      });
+    }
+    const route = routeArcs.get(arc.routeKey)!;
+    route.flights.push(arc.flight);
+    route.shared ||= arc.shared;
+  });
+  
+  return Array.from(routeArcs.entries()).map(([routeKey, route]) => {
+    // Check if this route connects to the selected airport
+    const isConnected = selectedAirport && route.flights.some(
+      f => f.origin_code === selectedAirport || f.destination_code === selectedAirport
+    );
+    const isShared = route.shared;
+    const isHighlighted = (!selectedAirport || isConnected) && (!showShared || isShared);
+    
+    // Calculate stroke: boost for connected (or shared) routes, or keep base stroke
+    // When no airport selected, use a minimum stroke of 0.8 for better hover hit area
+    let stroke = route.stroke;
+    if (selectedAirport || showShared) {
+      stroke = isHighlighted ? route.stroke * 1.5 : route.stroke;
+    } else {
+      // Ensure minimum stroke width for hover detectability
+      stroke = Math.max(0.8, route.stroke);
+    }
+    
+    return {
+      startLat: route.startLat,
+      startLng: route.startLng,
+      endLat: route.endLat,
+      endLng: route.endLng,
+      // Highlight connected routes in bright cyan (shared routes in gold), dim the rest
+      color: selectedAirport || showShared
+        ? (isHighlighted ? (showShared ? 'rgba(250, 204, 21, 0.7)' : 'rgba(0, 255, 255, 0.7)') : 'rgba(140, 120, 200, 0.15)')
+        : 'rgba(140, 120, 200, 0.6)',
+      stroke,
+      routeKey,
+      routeCount: route.routeCount,
+      flights: route.flights,
+      isConnected: !!isConnected,
+      isShared,
+    };
+  });
+}
+
+// "#60a5fa" -> "rgba(96, 165, 250, 0.9)"
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
+
+// Merge the globe data for both sides of a comparison, coloring each route by the side(s) it was flown in
+function compareGlobeData(a: GlobeData, b: GlobeData, selectedAirport: string | null): GlobeData {
+  const aRoutes = new Set(a.arcsData.map((arc) => arc.routeKey));
+  const bRoutes = new Set(b.arcsData.map((arc) => arc.routeKey));
+  const sideOf = (routeKey: string): ComparisonSide =>
+    aRoutes.has(routeKey) ? (bRoutes.has(routeKey) ? 'both' : 'a') : 'b';
+
+  // Each flight once, even where the two filter sets overlap
+  const seenFlights = new Set<number>();
+  const mergedArcs: GlobeArc[] = [];
+  [...a.arcsData, ...b.arcsData].forEach((arc) => {
+    if (seenFlights.has(arc.flight.id)) return;
+    seenFlights.add(arc.flight.id);
+    mergedArcs.push(arc);
+  });
+
+  const arcsData = mergedArcs.map((arc): GlobeArc => {
+    const side = sideOf(arc.routeKey);
+    const isConnected = !selectedAirport ||
+      arc.flight.origin_code === selectedAirport || arc.flight.destination_code === selectedAirport;
+    return { ...arc, color: withAlpha(COMPARISON_COLORS[side], isConnected ? 0.9 : 0.15), comparisonSide: side };
+  });
+
+  const staticArcsData = computeStaticArcs(arcsData, selectedAirport, false).map((route): GlobeStaticArc => {
+    const side = sideOf(route.routeKey);
+    const dimmed = !!selectedAirport && !route.isConnected;
+    return { ...route, color: withAlpha(COMPARISON_COLORS[side], dimmed ? 0.15 : 0.7), comparisonSide: side };
+  });
+
+  // Airports and labels from either side, A's version where both have one
+  const pointsData = Array.from(new Map([...b.pointsData, ...a.pointsData].map((p) => [p.airport.code, p])).values());
+  const labelsData = Array.from(new Map([...b.labelsData, ...a.labelsData].map((l) => [l.text, l])).values());
+
+  const airportCodes = (arcs: GlobeArc[]) => new Set(arcs.flatMap((arc) => [arc.flight.origin_code, arc.flight.destination_code]));
+  const aAirports = airportCodes(a.arcsData);
+  const newAirports = Array.from(airportCodes(b.arcsData)).filter((code) => !aAirports.has(code)).sort();
+
+  const routeCounts: Record<ComparisonSide, number> = { a: 0, b: 0, both: 0 };
+  new Set([...aRoutes, ...bRoutes]).forEach((routeKey) => routeCounts[sideOf(routeKey)]++);
+
+  return {
+    arcsData,
+    staticArcsData,
+    pointsData,
+    labelsData,
+    flightStats: a.flightStats,
+    routeStats: a.routeStats,
+    comparison: { a: a.flightStats, b: b.flightStats, newAirports, routeCounts },
+  };
+}
+
+/**
+ * Bind a loaded dataset and return a function computing the globe data for any
+ * filter state. The airline registry and shared flights don't depend on the
+ * filters, so they're computed once per dataset; a traveler's flights and route
+ * stats once per traveler. In compare mode both filter sets are computed and merged.
+ */
+export function createGlobeDataComputer(
+  flights: FlightsCollection,
+  airports: AirportsCollection
+): (filters: GlobeFilters) => GlobeData {
+  // Airline registry entries by name, from the build metadata
+  const airlineRegistry = new Map((flights.metadata?.airlines ?? []).map((airline) => [airline.name, airline]));
+  const sharedFlightTravelers = computeSharedFlights(flights);
+  const travelerCounts = computeTravelerCounts(flights, sharedFlightTravelers);
+
+  // Everyone's flights combined (null), or one traveler's
+  const travelerData = new Map<string | null, { flights: FlightsCollection; routeStats: Map<string, RouteStats> }>();
+  const getTravelerData = (traveler: string | null) => {
+    let data = travelerData.get(traveler);
+    if (!data) {
+      const travelerFlights = traveler === null
+        ? flights
+        : { ...flights, features: flights.features.filter((f) => f.properties.traveler === traveler) };
+      data = { flights: travelerFlights, routeStats: computeRouteStats(travelerFlights) };
+      travelerData.set(traveler, data);
+    }
+    return data;
+  };
+
+  const computeFilters = (filters: GlobeFilters): GlobeData => {
+    const { flights: travelerFlights, routeStats } = getTravelerData(filters.selectedTraveler);
+    const arcsData = computeArcs(travelerFlights, airlineRegistry, routeStats, sharedFlightTravelers, filters);
+    const filteredAirportCodes = visibleAirportCodes(arcsData, filters);
+    return {
+      arcsData,
+      staticArcsData: computeStaticArcs(arcsData, filters.selectedAirport, filters.showShared),
+      pointsData: computePoints(airports, arcsData, filteredAirportCodes, filters),
+      labelsData: computeLabels(airports, filteredAirportCodes),
+      flightStats: computeFlightStats(travelerFlights, airports, airlineRegistry, travelerCounts, sharedFlightTravelers, filters),
+      routeStats,
+      comparison: null,
+    };
+  };
+
+  return (filters) => {
+    if (!filters.compareWith) return computeFilters(filters);
+    const a = computeFilters({ ...filters, compareWith: null });
+    // Side B swaps in its own year, airlines, alliance and traveler; the other filters apply to both
+    const b = computeFilters({ ...filters, ...filters.compareWith, compareWith: null });
+    return compareGlobeData(a, b, filters.selectedAirport);
+  };
+}
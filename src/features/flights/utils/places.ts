@@ -0,0 +1,88 @@
+/**
+ * Country, region and continent filters, stored in the `country`, `region` and
+ * `continent` URL parameters (codes as in the airport data: "US", "US-CA", "EU").
+ * A flight matches a place when either end is in it, or with `within=1` only
+ * when both ends are. Places of different kinds combine, e.g. Europe and France.
+ */
+
+import type { AirportProperties, FlightProperties, PlaceFilter, PlaceKind } from '../types';
+
+export const PLACE_KINDS: PlaceKind[] = ['continent', 'country', 'region'];
+
+export const PLACE_KIND_LABELS: Record<PlaceKind, string> = {
+  continent: 'Continent',
+  country: 'Country',
+  region: 'Region',
+};
+
+function parseCode(value: string | null): string | null {
+  const code = value?.trim().toUpperCase();
+  return code ? code : null;
+}
+
+// The places from the URL values, or null when none is set
+export function parsePlaceFilter(
+  country: string | null,
+  region: string | null,
+  continent: string | null,
+  within: string | null
+): PlaceFilter | null {
+  const filter = {
+    country: parseCode(country),
+    region: parseCode(region),
+    continent: parseCode(continent),
+    within: within === '1',
+  };
+  return PLACE_KINDS.some((kind) => filter[kind] !== null) ? filter : null;
+}
+
+// Set one place (or clear it with null), leaving the others as they are
+export function writePlace(params: URLSearchParams, kind: PlaceKind, code: string | null): void {
+  if (code === null) params.delete(kind);
+  else params.set(kind, code);
+  if (!PLACE_KINDS.some((k) => params.has(k))) params.delete('within');
+}
+
+export function writePlaceWithin(params: URLSearchParams, within: boolean): void {
+  if (within) params.set('within', '1');
+  else params.delete('within');
+}
+
+function endCodes(flight: FlightProperties, kind: PlaceKind): [string, string] {
+  switch (kind) {
+    case 'country': return [flight.origin_country, flight.destination_country];
+    case 'region': return [flight.origin_region, flight.destination_region];
+    case 'continent': return [flight.origin_continent, flight.destination_continent];
+  }
+}
+
+export function isFlightInPlaces(flight: FlightProperties, filter: PlaceFilter | null): boolean {
+  if (!filter) return true;
+  return PLACE_KINDS.every((kind) => {
+    const code = filter[kind];
+    if (code === null) return true;
+    const [origin, destination] = endCodes(flight, kind);
+    return filter.within
+      ? origin === code && destination === code
+      : origin === code || destination === code;
+  });
+}
+
+// Display name for a place code, from any airport in it
+export function getPlaceName(kind: PlaceKind, code: string, airports: AirportProperties[]): string {
+  const airport = airports.find((a) => a[kind] === code);
+  if (!airport) return code;
+  switch (kind) {
+    case 'country': return airport.countryName;
+    case 'region': return airport.regionName;
+    case 'continent': return airport.continentName;
+  }
+}
+
+// "to or from France", "within Europe and Spain"
+export function describePlaces(filter: PlaceFilter, airports: AirportProperties[]): string {
+  const names = PLACE_KINDS
+    .filter((kind) => filter[kind] !== null)
+    .map((kind) => getPlaceName(kind, filter[kind]!, airports));
+  return `${filter.within ? 'within' : 'to or from'} ${names.join(' and ')}`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Trip grouping.
+ *
+ * Flights with a `trip` id in flights.csv are grouped by that id. Everything else
+ * is chained into inferred trips: a flight continues the current trip if it leaves
+ * within MAX_GAP_DAYS of the previous leg, the trip hasn't yet returned to where
+ * it started, and it departs from where the previous leg landed. While abroad
+ * (outside the trip's starting country) open-jaw gaps such as arriving at CDG and
+ * leaving from VIE are allowed, so overland segments don't split a trip.
+ * In logs shared by several travelers each traveler's flights are chained separately.
+ */
+
+import type { FlightProperties, Trip } from '../types';
+import { compareFlightDates } from './dates';
+import { calculateDistance, estimateFlightTime } from './geo';
+
+// Longest stay between two legs that still counts as the same trip
+const MAX_GAP_DAYS = 31;
+
+function legDistance(leg: FlightProperties): number {
+  return calculateDistance(leg.origin_lat, leg.origin_lon, leg.destination_lat, leg.destination_lon);
+}
+
+// Chronological order; same-day legs without logged times are chained origin → destination
+function sortLegs(flights: FlightProperties[]): FlightProperties[] {
+  const sorted = [...flights].sort((a, b) => {
+    const byDate = compareFlightDates(a.flightDate, b.flightDate);
+    if (byDate !== 0) return byDate;
+    if (a.timing && b.timing) return a.timing.departureUtc - b.timing.departureUtc;
+    return 0;
+  });
+
+  const ordered: FlightProperties[] = [];
+  let i = 0;
+  while (i < sorted.length) {
+    // Collect all legs on the same day
+    let j = i;
+    while (j < sorted.length && sorted[j].flightDate.dayNumber === sorted[i].flightDate.dayNumber) j++;
+    const sameDay = sorted.slice(i, j);
+
+    // Greedily follow connections, starting from the leg that doesn't continue another
+    while (sameDay.length > 0) {
+      const previous = ordered[ordered.length - 1];
+      let nextIndex = previous ? sameDay.findIndex((f) => f.origin_code === previous.destination_code) : -1;
+      if (nextIndex === -1) {
+        nextIndex = sameDay.findIndex((f) => !sameDay.some((g) => g !== f && g.destination_code === f.origin_code));
+      }
+      if (nextIndex === -1) nextIndex = 0;
+      ordered.push(sameDay.splice(nextIndex, 1)[0]);
+    }
+    i = j;
+  }
+  return ordered;
+}
+
+function buildTrip(id: string, source: Trip['source'], legs: FlightProperties[]): Trip {
+  const airports: string[] = [];
+  const countries: Trip['countries'] = [];
+  const seenCountries = new Set<string>();
+  let totalDistance = 0;
+  let flightTime = 0;
+
+  const addCountry = (code: string, name: string) => {
+    if (seenCountries.has(code)) return;
+    seenCountries.add(code);
+    countries.push({ code, name });
+  };
+
+  legs.forEach((leg) => {
+    if (airports[airports.length - 1] !== leg.origin_code) airports.push(leg.origin_code);
+    airports.push(leg.destination_code);
+    addCountry(leg.origin_country, leg.origin_countryName);
+    addCountry(leg.destination_country, leg.destination_countryName);
+
+    const distance = legDistance(leg);
+    totalDistance += distance;
+    flightTime += leg.timing ? leg.timing.durationMinutes / 60 : estimateFlightTime(distance);
+  });
+
+  const startDate = legs[0].flightDate;
+  const endDate = legs[legs.length - 1].flightDate;
+
+  return {
+    id,
+    source,
+    legs,
+    airports,
+    startDate,
+    endDate,
+    durationDays: endDate.dayNumber - startDate.dayNumber + 1,
+    flightTime: Math.round(flightTime * 10) / 10,
+    totalDistance: Math.round(totalDistance),
+    countries,
+  };
+}
+
+// Stable id for an inferred trip: start date + starting airport, e.g. "2006-06-01-LAX"
+function inferredTripId(firstLeg: FlightProperties): string {
+  return `${firstLeg.flightDate.iso.slice(0, 10)}-${firstLeg.origin_code}`;
+}
+
+function inferTrips(flights: FlightProperties[], usedIds: Set<string>): Trip[] {
+  const trips: Trip[] = [];
+  let current: FlightProperties[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      // Two trips from the same airport on the same day get a numeric suffix
+      const baseId = inferredTripId(current[0]);
+      let id = baseId;
+      for (let n = 2; usedIds.has(id); n++) id = `${baseId}-${n}`;
+      usedIds.add(id);
+      trips.push(buildTrip(id, 'inferred', current));
+      current = [];
+    }
+  };
+
+  sortLegs(flights).forEach((leg) => {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const gapDays = leg.flightDate.dayNumber - previous.flightDate.dayNumber;
+      const returnedHome = previous.destination_code === current[0].origin_code;
+      const chained = leg.origin_code === previous.destination_code;
+      const abroad = previous.destination_country !== current[0].origin_country;
+      if (gapDays > MAX_GAP_DAYS || returnedHome || (!chained && !abroad)) flush();
+    }
+    current.push(leg);
+  });
+  flush();
+
+  return trips;
+}
+
+// Group flights into trips, most recent first
+export function buildTrips(flights: FlightProperties[]): Trip[] {
+  const explicit = new Map<string, FlightProperties[]>();
+  const remainingByTraveler = new Map<string, FlightProperties[]>();
+
+  flights.forEach((f) => {
+    if (f.tripId) {
+      if (!explicit.has(f.tripId)) explicit.set(f.tripId, []);
+      explicit.get(f.tripId)!.push(f);
+    } else {
+      if (!remainingByTraveler.has(f.traveler)) remainingByTraveler.set(f.traveler, []);
+      remainingByTraveler.get(f.traveler)!.push(f);
+    }
+  });
+
+  const usedIds = new Set<string>();
+  const trips = [
+    ...Array.from(explicit.entries()).map(([id, legs]) => buildTrip(id, 'explicit', sortLegs(legs))),
+    ...Array.from(remainingByTraveler.values()).flatMap((legs) => inferTrips(legs, usedIds)),
+  ];
+
+  return trips.sort((a, b) => compareFlightDates(b.startDate, a.startDate));
+}
+
+// Route summary like "LAX → LHR → DUB → LAX"
+export function formatTripPath(trip: Trip): string {
+  return trip.airports.join(' → ');
+}
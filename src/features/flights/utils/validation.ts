@@ -0,0 +1,182 @@
+/**
+ * Runtime validation of the loaded flight data.
+ *
+ * The build output is trusted for its shape but not for every feature: a bad row
+ * in the sheet or a stale generated file shouldn't take the whole globe down.
+ * A file that isn't a FeatureCollection at all throws; individual features that
+ * can't be placed or dated are dropped and reported as DataIssues. Optional text
+ * fields missing from older builds are filled with empty strings.
+ */
+
+import type {
+  AirportFeature,
+  AirportsCollection,
+  DataIssue,
+  FlightFeature,
+  FlightProperties,
+  FlightsCollection,
+  FlightsMetadata,
+} from '../types';
+import { parseFlightDate, computeFlightTiming } from './dates';
+
+export interface ValidationResult<T> {
+  data: T;
+  issues: DataIssue[];
+}
+
+const FLIGHT_TEXT_FIELDS = [
+  'airline', 'airlineIata', 'airlineIcao', 'alliance', 'flightNumber', 'notes', 'departureTime', 'arrivalTime', 'tripId',
+  'traveler',
+] as const;
+
+const AIRPORT_TEXT_FIELDS = [
+  'icaoCode', 'name', 'municipality', 'region', 'regionName', 'country', 'countryName', 'continent', 'continentName', 'timeZone',
+] as const;
+
+const AIRPORT_COUNT_FIELDS = ['elevationFt', 'elevationM', 'visitCount', 'arrivalCount', 'departureCount'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isLatitude(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 90;
+}
+
+function isLongitude(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= 180;
+}
+
+function fillText<K extends string>(props: Record<string, unknown>, fields: readonly K[]) {
+  fields.forEach((field) => {
+    if (typeof props[field] !== 'string') props[field] = '';
+  });
+}
+
+// Throw unless the value is a FeatureCollection; individual features are checked separately
+function assertFeatureCollection(value: unknown, file: string): asserts value is { features: unknown[] } & Record<string, unknown> {
+  if (!isRecord(value) || value.type !== 'FeatureCollection' || !Array.isArray(value.features)) {
+    throw new Error(`${file} is not a GeoJSON FeatureCollection - regenerate it with npm run build-flights`);
+  }
+}
+
+function validateMetadata(value: unknown, issues: DataIssue[]): FlightsMetadata | undefined {
+  if (value === undefined) return undefined;
+  const metadataIssue = (message: string) => issues.push({ kind: 'metadata', id: '', reason: 'invalid-metadata', message });
+  if (!isRecord(value)) {
+    metadataIssue('Metadata is not an object (ignored)');
+    return undefined;
+  }
+  const metadata = value as unknown as FlightsMetadata;
+  if (!Array.isArray(value.years) || !value.years.every((year) => Number.isInteger(year))) {
+    metadataIssue('Metadata years are not a list of years (ignored)');
+    metadata.years = [];
+  }
+  if (!Array.isArray(value.airlines) || !value.airlines.every((airline) => isRecord(airline) && isNonEmptyString(airline.name))) {
+    metadataIssue('Metadata airline registry is malformed (airline colors fall back to defaults)');
+    metadata.airlines = [];
+  }
+  return metadata;
+}
+
+/**
+ * Check every flight and attach its parsed FlightDate and timing. Flights without
+ * an id, airport codes, valid coordinates or a parseable date are dropped.
+ */
+export function validateFlights(value: unknown, file: string): ValidationResult<FlightsCollection> {
+  assertFeatureCollection(value, file);
+  const issues: DataIssue[] = [];
+
+  const features = value.features.filter((feature, index): feature is FlightFeature => {
+    const props = isRecord(feature) && isRecord(feature.properties) ? feature.properties : null;
+    const id = props && (typeof props.id === 'number' || typeof props.id === 'string') ? String(props.id) : '';
+    const skip = (reason: DataIssue['reason'], message: string) => {
+      issues.push({ kind: 'flight', id, reason, message: `Flight ${id || `#${index + 1}`}: ${message}` });
+      return false;
+    };
+
+    if (!props || typeof props.id !== 'number') return skip('invalid-feature', 'Not a flight feature (missing properties or id)');
+    if (!isNonEmptyString(props.origin_code) || !isNonEmptyString(props.destination_code)) {
+      return skip('invalid-feature', 'Missing origin or destination code');
+    }
+    const route = `${props.origin_code} → ${props.destination_code}`;
+    if (
+      !isLatitude(props.origin_lat) || !isLongitude(props.origin_lon) ||
+      !isLatitude(props.destination_lat) || !isLongitude(props.destination_lon)
+    ) {
+      return skip('missing-coordinates', `Missing or invalid coordinates (${route})`);
+    }
+    const flightDate = typeof props.date === 'string' ? parseFlightDate(props.date) : null;
+    if (!flightDate) return skip('invalid-date', `Unparseable date "${String(props.date ?? '')}" (${route})`);
+
+    fillText(props, FLIGHT_TEXT_FIELDS);
+    const flight = props as unknown as FlightProperties;
+    flight.flightDate = flightDate;
+    flight.timing = computeFlightTiming(flight);
+    return true;
+  });
+
+  return {
+    data: { type: 'FeatureCollection', features, metadata: validateMetadata(value.metadata, issues) },
+    issues,
+  };
+}
+
+// Check every airport; airports without a code or valid point coordinates are dropped
+export function validateAirports(value: unknown, file: string): ValidationResult<AirportsCollection> {
+  assertFeatureCollection(value, file);
+  const issues: DataIssue[] = [];
+
+  const features = value.features.filter((feature, index): feature is AirportFeature => {
+    const props = isRecord(feature) && isRecord(feature.properties) ? feature.properties : null;
+    const code = props && isNonEmptyString(props.code) ? props.code : '';
+    const skip = (reason: DataIssue['reason'], message: string) => {
+      issues.push({ kind: 'airport', id: code, reason, message: `Airport ${code || `#${index + 1}`}: ${message}` });
+      return false;
+    };
+
+    if (!props || !code) return skip('invalid-feature', 'Not an airport feature (missing properties or code)');
+    const geometry = isRecord(feature) ? feature.geometry : null;
+    const coordinates = isRecord(geometry) ? geometry.coordinates : null;
+    if (!Array.isArray(coordinates) || !isLongitude(coordinates[0]) || !isLatitude(coordinates[1])) {
+      return skip('missing-coordinates', 'Missing or invalid coordinates');
+    }
+
+    fillText(props, AIRPORT_TEXT_FIELDS);
+    AIRPORT_COUNT_FIELDS.forEach((field) => {
+      if (typeof props[field] !== 'number' || !Number.isFinite(props[field])) props[field] = 0;
+    });
+    if (!Array.isArray(props.visitDates)) props.visitDates = [];
+    return true;
+  });
+
+  return { data: { type: 'FeatureCollection', features }, issues };
+}
+
+/**
+ * Drop flights whose airports aren't in the airports data, since they can't be
+ * highlighted or counted per airport.
+ */
+export function checkAirportReferences(
+  flights: FlightsCollection,
+  airports: AirportsCollection
+): ValidationResult<FlightsCollection> {
+  const codes = new Set(airports.features.map((a) => a.properties.code));
+  const issues: DataIssue[] = [];
+  const features = flights.features.filter((f) => {
+    const unknown = [f.properties.origin_code, f.properties.destination_code].filter((code) => !codes.has(code));
+    if (unknown.length === 0) return true;
+    issues.push({
+      kind: 'flight',
+      id: String(f.properties.id),
+      reason: 'unknown-airport',
+      message: `Flight ${f.properties.id}: Unknown airport code${unknown.length > 1 ? 's' : ''} ${unknown.map((code) => `"${code}"`).join(', ')}`,
+    });
+    return false;
+  });
+  return { data: issues.length > 0 ? { ...flights, features } : flights, issues };
+}
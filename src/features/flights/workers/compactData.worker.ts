@@ -0,0 +1,22 @@
+/**
+ * Decodes flights.compact.json off the main thread, since rebuilding every
+ * great-circle track grows with the log.
+ *
+ * Each message is the fetched file; the reply is the decoded collections (or an
+ * error, e.g. for a file from an incompatible build).
+ */
+
+import type { CompactDataWorkerResponse, CompactFlightData } from '../types';
+import { decodeCompactData } from '../utils/compact';
+
+function respond(response: CompactDataWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<CompactFlightData>) => {
+  try {
+    respond({ type: 'result', data: decodeCompactData(event.data) });
+  } catch (err) {
+    respond({ type: 'error', message: (err as Error).message });
+  }
+};
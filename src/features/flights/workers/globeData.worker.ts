@@ -0,0 +1,33 @@
+/**
+ * Computes globe layers and statistics off the main thread.
+ *
+ * The flights and airports are sent once with a 'load' message; each 'compute'
+ * message then gets a 'result' (or 'error') echoing its key.
+ */
+
+import type { GlobeData, GlobeFilters, GlobeWorkerRequest, GlobeWorkerResponse } from '../types';
+import { createGlobeDataComputer } from '../utils/globeData';
+
+let compute: ((filters: GlobeFilters) => GlobeData) | null = null;
+
+function respond(response: GlobeWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<GlobeWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    compute = createGlobeDataComputer(request.flights, request.airports);
+    return;
+  }
+
+  if (!compute) {
+    respond({ type: 'error', key: request.key, message: 'No flight data loaded' });
+    return;
+  }
+  try {
+    respond({ type: 'result', key: request.key, data: compute(request.filters) });
+  } catch (err) {
+    respond({ type: 'error', key: request.key, message: (err as Error).message });
+  }
+};
@@ -1,13 +1,37 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import compression from 'vite-plugin-compression'
+import { EARTH_TEXTURES, FLIGHT_DATA_FILES } from './src/features/flights/assets'
+
+// Precache list for public/sw.js: the built app shell, the compact flight data the globe
+// loads and the globe textures. The GeoJSON files and the importers' airport table are
+// only cached once requested. The version only changes with the app build; data updates
+// are picked up by the worker itself when the data's dataHash changes.
+function serviceWorkerManifest(): Plugin {
+  return {
+    name: 'service-worker-manifest',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      const shell = ['./', ...Object.keys(bundle).filter((file) => !/\.(gz|br|map)$/.test(file))]
+      const data = [`data/flights/${FLIGHT_DATA_FILES.compact}`]
+      // Asset names are content-hashed, so hashing the list is enough to version the build
+      const version = shell.join('\n').split('').reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7).toString(36)
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw-manifest.json',
+        source: JSON.stringify({ version, shell, data, textures: EARTH_TEXTURES }),
+      })
+    },
+  }
+}
 
 export default defineConfig({
   base: '/rsmb.tv/',
   plugins: [
     react(),
     tailwindcss(),
+    serviceWorkerManifest(),
     // Gzip compression
     compression({
       algorithm: 'gzip',